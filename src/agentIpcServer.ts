@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { AiSignal, SignalSource } from './signalSource';
+
+/**
+ * Local endpoint (Unix domain socket / named pipe) for AI agents running outside of VS Code's APIs,
+ * e.g. aider in the integrated terminal. The address is advertised to terminals as $GIT_AI_AGENT_SOCKET.
+ *
+ * Protocol: one JSON object per line, answered with one JSON line ({"ok":true} or {"ok":false,"error":"..."}).
+ *   {"type":"agent_edit","agent":"aider","model":"gpt-4o","files":["src/a.ts"],"conversationId":"optional","cwd":"optional"}
+ * Relative paths are resolved against `cwd` (or the first workspace folder). Files outside the workspace are rejected.
+ *
+ * On Unix the socket lives in a private directory (mode 0700), so other users can't connect to it.
+ * Windows named pipes have no such directory: the pipe gets the default ACL of the VS Code process and only its
+ * random name keeps other local users out. Don't rely on it on shared Windows machines.
+ */
+export class AgentIpcServer implements SignalSource {
+    public readonly id = 'ipc';
+    // Default only, every message names its own agent
+    public readonly agentName = 'external';
+    public readonly model = 'unknown';
+
+    public static readonly ENV_VAR = 'GIT_AI_AGENT_SOCKET';
+
+    private _onDidSignal = new vscode.EventEmitter<AiSignal>();
+    public readonly onDidSignal = this._onDidSignal.event;
+
+    private outputChannel: vscode.OutputChannel;
+    private envCollection: vscode.EnvironmentVariableCollection;
+    private server: net.Server;
+    private socketPath: string;
+    // Private directory holding the socket (Unix only)
+    private socketDir: string | null = null;
+    private messageCount: number = 0;
+
+    private readonly MAX_MESSAGE_BYTES = 1024 * 1024;
+    private readonly MAX_FILES = 1000;
+
+    constructor(envCollection: vscode.EnvironmentVariableCollection) {
+        this.envCollection = envCollection;
+        this.outputChannel = vscode.window.createOutputChannel("Git AI Agent IPC");
+
+        if (os.platform() === 'win32') {
+            this.socketPath = `\\\\.\\pipe\\git-ai-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+        } else {
+            // mkdtemp creates the directory with mode 0700 before anything listens in it, so there is no window in
+            // which another user could connect (a chmod of the socket after listen() would leave one)
+            this.socketDir = fs.mkdtempSync(path.join(os.tmpdir(), `git-ai-${process.pid}-`));
+            fs.chmodSync(this.socketDir, 0o700);
+            this.socketPath = path.join(this.socketDir, 'agent.sock');
+        }
+
+        this.server = net.createServer(socket => this.handleConnection(socket));
+        this.server.on('error', err => {
+            this.outputChannel.appendLine(`[ERROR] IPC server error: ${err.message}`);
+        });
+        this.server.listen(this.socketPath, () => {
+            this.outputChannel.appendLine(`[IPC] Listening on ${this.socketPath}`);
+            this.envCollection.replace(AgentIpcServer.ENV_VAR, this.socketPath);
+        });
+    }
+
+    private handleConnection(socket: net.Socket) {
+        let buffer = '';
+
+        socket.on('data', chunk => {
+            buffer += chunk.toString();
+
+            if (buffer.length > this.MAX_MESSAGE_BYTES) {
+                this.reply(socket, { ok: false, error: 'Message too large' });
+                socket.destroy();
+                return;
+            }
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.substring(0, newline).trim();
+                buffer = buffer.substring(newline + 1);
+                if (line) {
+                    this.reply(socket, this.handleMessage(line));
+                }
+            }
+        });
+
+        // Allow clients that close their end without a trailing newline
+        socket.on('end', () => {
+            if (buffer.trim()) {
+                this.reply(socket, this.handleMessage(buffer.trim()));
+            }
+            socket.end();
+        });
+
+        socket.on('error', err => {
+            this.outputChannel.appendLine(`[ERROR] IPC connection error: ${err.message}`);
+        });
+    }
+
+    private reply(socket: net.Socket, response: { ok: boolean, error?: string, files?: string[] }) {
+        if (!socket.destroyed && socket.writable) {
+            socket.write(JSON.stringify(response) + '\n');
+        }
+    }
+
+    private handleMessage(line: string): { ok: boolean, error?: string, files?: string[] } {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch (e) {
+            return { ok: false, error: 'Invalid JSON' };
+        }
+
+        // 1. Validate shape
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            return { ok: false, error: "Unsupported message type (expected 'agent_edit')" };
+        }
+        const msg = parsed as Record<string, unknown>;
+        if (msg.type !== 'agent_edit') {
+            return { ok: false, error: "Unsupported message type (expected 'agent_edit')" };
+        }
+        if (typeof msg.agent !== 'string' || !msg.agent.trim() || msg.agent.length > 100) {
+            return { ok: false, error: "'agent' must be a non-empty string" };
+        }
+        if (typeof msg.model !== 'string' || !msg.model.trim() || msg.model.length > 100) {
+            return { ok: false, error: "'model' must be a non-empty string" };
+        }
+        if (!Array.isArray(msg.files) || msg.files.length === 0 || msg.files.length > this.MAX_FILES || !msg.files.every((f: unknown) => typeof f === 'string' && f.trim())) {
+            return { ok: false, error: `'files' must be a list of 1-${this.MAX_FILES} paths` };
+        }
+        if (msg.conversationId !== undefined && typeof msg.conversationId !== 'string') {
+            return { ok: false, error: "'conversationId' must be a string" };
+        }
+        if (msg.cwd !== undefined && (typeof msg.cwd !== 'string' || !path.isAbsolute(msg.cwd))) {
+            return { ok: false, error: "'cwd' must be an absolute path" };
+        }
+
+        // 2. Resolve paths and restrict them to the workspace
+        const folders = vscode.workspace.workspaceFolders || [];
+        const baseDir = (msg.cwd as string | undefined) || folders[0]?.uri.fsPath;
+        const files: string[] = [];
+        for (const f of msg.files as string[]) {
+            if (!path.isAbsolute(f) && !baseDir) {
+                return { ok: false, error: `Cannot resolve relative path '${f}' without a workspace` };
+            }
+            const resolved = path.resolve(baseDir || '', f);
+            if (!vscode.workspace.getWorkspaceFolder(vscode.Uri.file(resolved))) {
+                return { ok: false, error: `File is outside the workspace: ${f}` };
+            }
+            files.push(resolved);
+        }
+
+        this.messageCount++;
+        this.outputChannel.appendLine(`[IPC] agent_edit from ${msg.agent} (${msg.model}): ${files.join(', ')}`);
+
+        this._onDidSignal.fire({
+            sourceId: this.id,
+            agent: { agentName: msg.agent, model: msg.model, conversationId: msg.conversationId as string | undefined },
+            files,
+            filesOnDisk: true
+        });
+
+        return { ok: true, files };
+    }
+
+    public getDebugInfo(): string {
+        return `Socket: ${this.socketPath}\nMessages: ${this.messageCount}`;
+    }
+
+    public dispose() {
+        this.envCollection.delete(AgentIpcServer.ENV_VAR);
+        this.server.close();
+        if (this.socketDir) {
+            try {
+                fs.rmSync(this.socketDir, { recursive: true, force: true });
+            } catch (e) {
+                // Already gone
+            }
+        }
+        this._onDidSignal.dispose();
+        this.outputChannel.dispose();
+    }
+}
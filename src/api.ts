@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CheckpointManager, CheckpointEvent } from './checkpointManager';
+import { RecentCommitsData, TranscriptMessage } from './gitAiService';
+
+export { CheckpointEvent, RecentCommitsData, TranscriptMessage };
+
+/**
+ * An edit made by an AI agent, reported by another extension.
+ */
+export interface AgentEdit {
+    // Agent name as recorded by git-ai (e.g. "copilot", "my-assistant")
+    agent: string;
+    model: string;
+    // Files the agent wrote: absolute paths, 'file:' URI strings or vscode.Uri objects with the 'file' scheme
+    files: (string | vscode.Uri)[];
+    conversationId?: string;
+    transcript?: TranscriptMessage[];
+}
+
+/**
+ * Public API returned from `activate`. Usage from another extension:
+ *
+ *   const api = vscode.extensions.getExtension('rdb-platform.git-ai-tracking')?.exports as GitAiApi;
+ *   if (api?.version === 1) { await api.reportAgentEdit({ agent: 'my-assistant', model: 'gpt-4o', files: [uri] }); }
+ *
+ * Breaking changes bump `version`.
+ */
+export interface GitAiApi {
+    readonly version: 1;
+    reportAgentEdit(edit: AgentEdit): Promise<void>;
+    readonly onDidCheckpoint: vscode.Event<CheckpointEvent>;
+    getStats(): Promise<RecentCommitsData | null>;
+    readonly onDidChangeStats: vscode.Event<RecentCommitsData | null>;
+}
+
+export function createApi(checkpointManager: CheckpointManager): GitAiApi {
+    return {
+        version: 1,
+
+        reportAgentEdit: async (edit: AgentEdit) => {
+            if (!edit || typeof edit.agent !== 'string' || !edit.agent.trim()) {
+                throw new Error("Git AI: 'agent' is required.");
+            }
+            if (typeof edit.model !== 'string' || !edit.model.trim()) {
+                throw new Error("Git AI: 'model' is required.");
+            }
+            if (!Array.isArray(edit.files) || edit.files.length === 0) {
+                throw new Error("Git AI: 'files' must list at least one file.");
+            }
+
+            const files = edit.files.map(f => {
+                const uri = typeof f === 'string' ? (f.startsWith('file:') ? vscode.Uri.parse(f) : null) : f;
+                if (uri && uri.scheme !== 'file') {
+                    throw new Error(`Git AI: only 'file' URIs are supported (got '${uri.toString()}').`);
+                }
+                const filePath = uri ? uri.fsPath : f as string;
+                if (!path.isAbsolute(filePath)) {
+                    throw new Error(`Git AI: file paths must be absolute (got '${filePath}').`);
+                }
+                return path.normalize(filePath);
+            });
+
+            await checkpointManager.reportAgentEdit(
+                files,
+                { agentName: edit.agent, model: edit.model, conversationId: edit.conversationId },
+                edit.transcript || []
+            );
+        },
+
+        onDidCheckpoint: checkpointManager.onDidCheckpoint,
+
+        getStats: async () => checkpointManager.getLastCommitStats(),
+
+        onDidChangeStats: checkpointManager.onDidChangeStats
+    };
+}
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitAiService, LineCommit } from './gitAiService';
+import { LineAuthorshipCache, LineAuthor, FileAuthorship } from './lineAuthorship';
+
+interface AuthorshipShare {
+    ai: number;
+    mixed: number;
+    human: number;
+}
+
+/**
+ * "AI 72% · mixed 10% · human 18%" above each function / class / method, from the line-level attribution.
+ * Clicking the lens opens a breakdown of the agents and commits behind the symbol.
+ * Toggled via 'gitAi.authorshipCodeLens.enabled'.
+ */
+export class AuthorshipCodeLensProvider implements vscode.CodeLensProvider {
+    private gitAiService: GitAiService;
+    private cache: LineAuthorshipCache;
+    private disposables: vscode.Disposable[] = [];
+    // The cache changes on every keystroke, lenses are refreshed once typing pauses
+    private readonly REFRESH_DELAY_MS = 300;
+    private refreshTimeout: NodeJS.Timeout | null = null;
+
+    // Symbols that get a lens; variables, fields etc. would only add noise
+    private static readonly SYMBOL_KINDS = new Set([
+        vscode.SymbolKind.Class,
+        vscode.SymbolKind.Interface,
+        vscode.SymbolKind.Struct,
+        vscode.SymbolKind.Enum,
+        vscode.SymbolKind.Function,
+        vscode.SymbolKind.Method,
+        vscode.SymbolKind.Constructor
+    ]);
+
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private get enabled(): boolean {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<boolean>('authorshipCodeLens.enabled', true);
+    }
+
+    constructor(gitAiService: GitAiService, cache: LineAuthorshipCache) {
+        this.gitAiService = gitAiService;
+        this.cache = cache;
+
+        this.disposables.push(this._onDidChangeCodeLenses);
+        this.disposables.push(this.cache.onDidChange(() => this.scheduleRefresh()));
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('gitAi.authorshipCodeLens.enabled')) {
+                this._onDidChangeCodeLenses.fire();
+            }
+        }));
+    }
+
+    private scheduleRefresh() {
+        if (this.refreshTimeout) clearTimeout(this.refreshTimeout);
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = null;
+            this._onDidChangeCodeLenses.fire();
+        }, this.REFRESH_DELAY_MS);
+    }
+
+    public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        if (!this.enabled || document.uri.scheme !== 'file') return [];
+
+        const authorship = await this.cache.get(document);
+        if (!authorship || token.isCancellationRequested) return [];
+
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+            'vscode.executeDocumentSymbolProvider', document.uri);
+        if (!symbols || token.isCancellationRequested) return [];
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const symbol of this.flatten(symbols)) {
+            const range = 'location' in symbol ? symbol.location.range : symbol.range;
+            const share = this.share(authorship.lines.slice(range.start.line, range.end.line + 1));
+            if (!share) continue;
+
+            lenses.push(new vscode.CodeLens(new vscode.Range(range.start.line, 0, range.start.line, 0), {
+                title: `AI ${share.ai}% · mixed ${share.mixed}% · human ${share.human}%`,
+                tooltip: "Git AI: Show who wrote this symbol",
+                command: 'gitAi.showSymbolAuthorship',
+                arguments: [document.uri.toString(), range.start.line, range.end.line, symbol.name]
+            }));
+        }
+        return lenses;
+    }
+
+    private flatten(symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): (vscode.DocumentSymbol | vscode.SymbolInformation)[] {
+        const result: (vscode.DocumentSymbol | vscode.SymbolInformation)[] = [];
+        for (const symbol of symbols) {
+            if (AuthorshipCodeLensProvider.SYMBOL_KINDS.has(symbol.kind)) {
+                result.push(symbol);
+            }
+            if ('children' in symbol) {
+                result.push(...this.flatten(symbol.children));
+            }
+        }
+        return result;
+    }
+
+    // Percentages (rounded so they add up to 100), null for an empty range
+    private share(lines: LineAuthor[]): AuthorshipShare | null {
+        if (lines.length === 0) return null;
+        const ai = Math.round(lines.filter(l => l.kind === 'ai').length / lines.length * 100);
+        const mixed = Math.round(lines.filter(l => l.kind === 'mixed').length / lines.length * 100);
+        return { ai, mixed, human: Math.max(0, 100 - ai - mixed) };
+    }
+
+    /**
+     * Opens a breakdown of a symbol: lines per author kind, per agent/model and per commit.
+     */
+    public async showSymbolAuthorship(documentUri: string, startLine: number, endLine: number, name: string) {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === documentUri);
+        const authorship = document ? await this.cache.get(document) : null;
+        if (!document || !authorship) {
+            vscode.window.showWarningMessage("Git AI: Authorship of this file is no longer available.");
+            return;
+        }
+
+        const lines = authorship.lines.slice(startLine, endLine + 1);
+        const share = this.share(lines);
+        if (!share) return;
+
+        let content = `# Git AI Authorship: ${name}\n\n`;
+        content += `**File:** ${path.relative(authorship.repoDir, document.uri.fsPath)} (lines ${startLine + 1}-${endLine + 1})\n\n`;
+        content += `- **AI Generated:** ${lines.filter(l => l.kind === 'ai').length} lines (${share.ai}%)\n`;
+        content += `- **Mixed:** ${lines.filter(l => l.kind === 'mixed').length} lines (${share.mixed}%)\n`;
+        content += `- **Human:** ${lines.filter(l => l.kind === 'human').length} lines (${share.human}%)\n\n`;
+
+        content += this.agentSection(lines, authorship);
+        content += await this.commitSection(document, authorship, startLine, endLine);
+
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+        await vscode.window.showTextDocument(doc, { preview: true });
+    }
+
+    private agentSection(lines: LineAuthor[], authorship: FileAuthorship): string {
+        // "tool (model)" -> [ai, mixed]
+        const agents = new Map<string, [number, number]>();
+        for (const line of lines) {
+            if (line.kind === 'human') continue;
+            const prompt = line.promptId ? authorship.prompts[line.promptId] : undefined;
+            const key = `${prompt?.agent_id?.tool || 'unknown'} (${prompt?.agent_id?.model || 'unknown'})`;
+            const counts = agents.get(key) || [0, 0];
+            counts[line.kind === 'ai' ? 0 : 1]++;
+            agents.set(key, counts);
+        }
+        if (agents.size === 0) return '';
+
+        let content = `## Agents\n\n| Agent | AI Lines | Mixed Lines |\n|---|---|---|\n`;
+        for (const [agent, [ai, mixed]] of [...agents.entries()].sort((a, b) => (b[1][0] + b[1][1]) - (a[1][0] + a[1][1]))) {
+            content += `| ${this.escapeCell(agent)} | ${ai} | ${mixed} |\n`;
+        }
+        return content + `\n`;
+    }
+
+    private async commitSection(document: vscode.TextDocument, authorship: FileAuthorship, startLine: number, endLine: number): Promise<string> {
+        let content = `## Commits\n\n`;
+        // Blame works on the file on disk, line numbers of unsaved edits don't match it
+        if (document.isDirty) {
+            return content + `*Save the file to see the commits of this symbol.*\n`;
+        }
+
+        const commits = await this.gitAiService.getLineCommits(authorship.repoDir, document.uri.fsPath, startLine + 1, endLine + 1);
+        // commit hash ('' = uncommitted) -> commit + line counts per kind
+        const rows = new Map<string, { commit: LineCommit | null, ai: number, mixed: number, human: number }>();
+        for (let line = startLine; line <= endLine; line++) {
+            const commit = commits.get(line + 1) || null;
+            const key = commit ? commit.hash : '';
+            const row = rows.get(key) || { commit, ai: 0, mixed: 0, human: 0 };
+            row[authorship.lines[line]?.kind || 'human']++;
+            rows.set(key, row);
+        }
+
+        content += `| Commit | Author | Message | AI | Mixed | Human |\n|---|---|---|---|---|---|\n`;
+        for (const row of [...rows.values()].sort((a, b) => (b.ai + b.mixed + b.human) - (a.ai + a.mixed + a.human))) {
+            const commitText = row.commit ? `\`${row.commit.hash.substring(0, 7)}\`` : '*uncommitted*';
+            const author = row.commit ? this.escapeCell(row.commit.author) : '';
+            const message = row.commit ? this.escapeCell(row.commit.summary) : '';
+            content += `| ${commitText} | ${author} | ${message} | ${row.ai} | ${row.mixed} | ${row.human} |\n`;
+        }
+        return content;
+    }
+
+    // Tool, model and author names come from notes and commits: keep them from breaking the markdown table
+    private escapeCell(text: string): string {
+        return text.replace(/[\r\n]+/g, ' ').replace(/[\\`*_[\]<>|]/g, c => `\\${c}`);
+    }
+
+    public dispose() {
+        if (this.refreshTimeout) clearTimeout(this.refreshTimeout);
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { LineAuthorshipCache, LineAuthorKind } from './lineAuthorship';
+
+/**
+ * Colors each line of visible editors by author (AI / mixed / human) with a bar in the gutter area
+ * and a mark in the overview ruler. Toggled via 'gitAi.authorshipDecorations.enabled'.
+ * Colors are theme colors: gitAi.aiLineIndicator, gitAi.mixedLineIndicator, gitAi.humanLineIndicator.
+ */
+export class AuthorshipDecorations {
+    private cache: LineAuthorshipCache;
+    private disposables: vscode.Disposable[] = [];
+    private decorationTypes: Record<LineAuthorKind, vscode.TextEditorDecorationType>;
+
+    // Re-rendering on every keystroke is wasteful, editors are refreshed at most this often
+    private readonly RENDER_DELAY_MS = 150;
+    private pendingRenders: Map<string, NodeJS.Timeout> = new Map();
+
+    private get enabled(): boolean {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<boolean>('authorshipDecorations.enabled', false);
+    }
+
+    constructor(cache: LineAuthorshipCache) {
+        this.cache = cache;
+
+        const create = (color: string) => vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            borderWidth: '0 0 0 3px',
+            borderStyle: 'solid',
+            borderColor: new vscode.ThemeColor(color),
+            overviewRulerColor: new vscode.ThemeColor(color),
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        });
+        this.decorationTypes = {
+            ai: create('gitAi.aiLineIndicator'),
+            mixed: create('gitAi.mixedLineIndicator'),
+            human: create('gitAi.humanLineIndicator')
+        };
+        this.disposables.push(...Object.values(this.decorationTypes));
+
+        this.disposables.push(vscode.window.onDidChangeVisibleTextEditors(() => this.renderAll()));
+        this.disposables.push(this.cache.onDidChange(uri => this.scheduleRender(uri)));
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('gitAi.authorshipDecorations.enabled')) {
+                this.renderAll();
+            }
+        }));
+
+        this.renderAll();
+    }
+
+    public async toggle() {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        await config.update('authorshipDecorations.enabled', !this.enabled, vscode.ConfigurationTarget.Global);
+    }
+
+    private renderAll() {
+        for (const editor of vscode.window.visibleTextEditors) {
+            this.render(editor);
+        }
+    }
+
+    private scheduleRender(uri: vscode.Uri) {
+        const key = uri.toString();
+        if (this.pendingRenders.has(key)) return;
+
+        this.pendingRenders.set(key, setTimeout(() => {
+            this.pendingRenders.delete(key);
+            for (const editor of vscode.window.visibleTextEditors) {
+                if (editor.document.uri.toString() === key) {
+                    this.render(editor);
+                }
+            }
+        }, this.RENDER_DELAY_MS));
+    }
+
+    private async render(editor: vscode.TextEditor) {
+        if (!this.enabled || editor.document.uri.scheme !== 'file') {
+            for (const type of Object.values(this.decorationTypes)) {
+                editor.setDecorations(type, []);
+            }
+            return;
+        }
+
+        const authorship = await this.cache.get(editor.document);
+        const ranges: Record<LineAuthorKind, vscode.Range[]> = { ai: [], mixed: [], human: [] };
+        if (authorship) {
+            const lineCount = Math.min(authorship.lines.length, editor.document.lineCount);
+            for (let line = 0; line < lineCount; line++) {
+                ranges[authorship.lines[line].kind].push(new vscode.Range(line, 0, line, 0));
+            }
+        }
+
+        for (const kind of Object.keys(ranges) as LineAuthorKind[]) {
+            editor.setDecorations(this.decorationTypes[kind], ranges[kind]);
+        }
+    }
+
+    public dispose() {
+        for (const timeout of this.pendingRenders.values()) {
+            clearTimeout(timeout);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { GitAiService, BlamePrompt } from './gitAiService';
+import { LineAuthorshipCache } from './lineAuthorship';
+
+/**
+ * Hover on AI-written (or mixed) lines: agent, model, commit, conversation id and an excerpt of the prompt,
+ * with a link that opens the whole conversation. Human lines get no hover. Toggled via 'gitAi.authorshipHover.enabled'.
+ */
+export class AuthorshipHoverProvider implements vscode.HoverProvider {
+    private gitAiService: GitAiService;
+    private cache: LineAuthorshipCache;
+
+    private readonly MAX_EXCERPT_CHARS = 300;
+
+    private get enabled(): boolean {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<boolean>('authorshipHover.enabled', true);
+    }
+
+    constructor(gitAiService: GitAiService, cache: LineAuthorshipCache) {
+        this.gitAiService = gitAiService;
+        this.cache = cache;
+    }
+
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | null> {
+        if (!this.enabled || document.uri.scheme !== 'file') return null;
+
+        const authorship = await this.cache.get(document);
+        const author = authorship?.lines[position.line];
+        if (!authorship || !author || author.kind === 'human' || token.isCancellationRequested) return null;
+
+        const prompt = author.promptId ? authorship.prompts[author.promptId] : undefined;
+        const tool = prompt?.agent_id?.tool || 'unknown agent';
+        const model = prompt?.agent_id?.model || 'unknown model';
+
+        const md = new vscode.MarkdownString();
+        md.supportThemeIcons = true;
+        md.isTrusted = { enabledCommands: ['gitAi.openConversation'] };
+
+        const kindLabel = author.kind === 'ai' ? '$(robot) AI' : '$(group-by-ref-type) Mixed (AI, edited by a human)';
+        md.appendMarkdown(`**Git AI** · ${kindLabel}\n\n`);
+        md.appendMarkdown(`- **Agent:** ${this.escape(tool)} · **Model:** ${this.escape(model)}\n`);
+
+        // Blame lines refer to the file on disk, unsaved edits shift them
+        if (!document.isDirty) {
+            const commit = await this.gitAiService.getLineCommit(authorship.repoDir, document.uri.fsPath, position.line + 1);
+            md.appendMarkdown(commit
+                ? `- **Commit:** \`${commit.hash.substring(0, 7)}\` ${this.escape(commit.summary)} (${this.escape(commit.author)})\n`
+                : `- **Commit:** not committed yet\n`);
+        }
+
+        if (prompt?.agent_id?.id) {
+            md.appendMarkdown(`- **Conversation:** \`${this.escape(prompt.agent_id.id)}\`\n`);
+        }
+        if (prompt?.human_author) {
+            md.appendMarkdown(`- **Prompted by:** ${this.escape(prompt.human_author)}\n`);
+        }
+
+        const excerpt = this.promptExcerpt(prompt);
+        if (excerpt) {
+            md.appendMarkdown(`\n> ${this.escape(excerpt).replace(/\n/g, '\n> ')}\n`);
+        }
+
+        if (author.promptId && prompt) {
+            const args = encodeURIComponent(JSON.stringify([document.uri.toString(), author.promptId]));
+            md.appendMarkdown(`\n[$(comment-discussion) Open conversation](command:gitAi.openConversation?${args})`);
+        }
+
+        return new vscode.Hover(md, document.lineAt(position.line).range);
+    }
+
+    // First thing the user asked in the conversation
+    private promptExcerpt(prompt: BlamePrompt | undefined): string | null {
+        const message = prompt?.messages?.find(m => m.type === 'user' && m.text);
+        if (!message || !message.text) return null;
+        const text = message.text.trim();
+        return text.length > this.MAX_EXCERPT_CHARS ? text.substring(0, this.MAX_EXCERPT_CHARS - 3) + '...' : text;
+    }
+
+    /**
+     * Opens the full conversation of a prompt as a markdown document.
+     */
+    public async openConversation(documentUri: string, promptId: string) {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === documentUri);
+        const authorship = document ? await this.cache.get(document) : null;
+        const prompt = authorship?.prompts[promptId];
+        if (!prompt) {
+            vscode.window.showWarningMessage("Git AI: The conversation is no longer available.");
+            return;
+        }
+
+        let content = `# Git AI Conversation\n\n`;
+        content += `- **Agent:** ${prompt.agent_id?.tool || 'unknown'}\n`;
+        content += `- **Model:** ${prompt.agent_id?.model || 'unknown'}\n`;
+        content += `- **Conversation:** ${prompt.agent_id?.id || promptId}\n`;
+        if (prompt.human_author) {
+            content += `- **Prompted by:** ${prompt.human_author}\n`;
+        }
+        content += `\n`;
+
+        const messages = prompt.messages || [];
+        if (messages.length === 0) {
+            content += `*git-ai stored no transcript for this conversation.*\n`;
+        }
+        for (const message of messages) {
+            const time = message.timestamp ? ` · ${new Date(message.timestamp).toLocaleString()}` : '';
+            content += `## ${message.type}${time}\n\n${message.text || ''}\n\n`;
+        }
+
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+        await vscode.window.showTextDocument(doc, { preview: true });
+    }
+
+    private escape(text: string): string {
+        return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+    }
+}
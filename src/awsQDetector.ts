@@ -1,14 +1,62 @@
 import * as vscode from 'vscode';
-import { CheckpointManager } from './checkpointManager';
+import { AiSignal, SignalSource } from './signalSource';
+import { matchesClipboard } from './clipboard';
+
+export class AwsQDetector implements SignalSource {
+    public readonly id = 'heuristic';
+    // The heuristics can't tell which assistant made the edit
+    public readonly agentName = 'unknown-ai';
+    public readonly model = 'unknown';
+
+    private _onDidSignal = new vscode.EventEmitter<AiSignal>();
+    public readonly onDidSignal = this._onDidSignal.event;
 
-export class AwsQDetector {
-    private checkpointManager: CheckpointManager;
     private outputChannel: vscode.OutputChannel;
+    private disposables: vscode.Disposable[] = [];
+
+    // Recently edited documents (uri -> time of last edit), used for burst detection
+    private recentEdits: Map<string, number> = new Map();
+    private readonly BURST_WINDOW_MS = 2000;
+    private readonly BURST_MIN_FILES = 3;
+
+    // Minimum size of a single insertion before it is considered "not typing"
+    private readonly LARGE_INSERTION_MIN_CHARS = 80;
+
+    // Avoid flooding the manager with signals while an agent is streaming edits
+    private lastSignalTime: number = 0;
+    private readonly SIGNAL_COOLDOWN_MS = 1000;
 
-    constructor(checkpointManager: CheckpointManager) {
-        this.checkpointManager = checkpointManager;
+    // Documents being saved: format-on-save and code actions on save edit them, not an AI
+    // (uri -> time the save started; a failed save never reports back, so entries also expire)
+    private savingDocuments: Map<string, number> = new Map();
+    private readonly SAVE_GRACE_MS = 5000;
+
+    // Configurable via 'gitAi.heuristicDetection.backgroundAndBurstRules'. Off by default: refactorings,
+    // search-and-replace and format-on-save across files look exactly like that
+    private get backgroundAndBurstRules(): boolean {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<boolean>('heuristicDetection.backgroundAndBurstRules', false);
+    }
+
+    // Configurable via 'gitAi.heuristicDetection.minInsertedLines'
+    private get minInsertedLines(): number {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<number>('heuristicDetection.minInsertedLines', 5);
+    }
+
+    constructor() {
         this.outputChannel = vscode.window.createOutputChannel("Git AI Probe");
         this.probeAwsExtension();
+
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(e => this.checkPotentialAiActivity(e)));
+        this.disposables.push(vscode.workspace.onWillSaveTextDocument(e => this.savingDocuments.set(e.document.uri.toString(), Date.now())));
+        this.disposables.push(vscode.workspace.onDidSaveTextDocument(doc => this.savingDocuments.delete(doc.uri.toString())));
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidSignal.dispose();
+        this.outputChannel.dispose();
     }
 
     private probeAwsExtension() {
@@ -34,9 +82,84 @@ export class AwsQDetector {
         });
     }
 
-    // This method would be hooked into extension.ts listeners if we had a specific signal
+    /**
+     * Heuristic detection for agents that leave no trace in the Amazon Q logs.
+     * An edit is treated as AI activity when:
+     * 1. A single change inserts a large multi-line block that is not a clipboard paste.
+     * 2. (Opt-in) A document that is not shown in any visible editor gets modified.
+     * 3. (Opt-in) Several different documents are modified within a short burst.
+     *
+     * Changes that leave the document clean are reloads from disk (checkout, pull, stash, ...) and are ignored,
+     * like edits made while the document is being saved (format-on-save).
+     */
     public checkPotentialAiActivity(event: vscode.TextDocumentChangeEvent) {
-        // Placeholder for heuristic detection
-        // e.g., rapid large insertions
+        if (event.document.uri.scheme !== 'file') return;
+        if (event.contentChanges.length === 0) return;
+
+        // Undo/Redo replays earlier edits, it never indicates new AI output
+        if (event.reason === vscode.TextDocumentChangeReason.Undo || event.reason === vscode.TextDocumentChangeReason.Redo) {
+            return;
+        }
+
+        // Reloaded from disk: the editor buffer matches the file again
+        if (!event.document.isDirty) return;
+
+        const uriKey = event.document.uri.toString();
+        const saveStarted = this.savingDocuments.get(uriKey);
+        if (saveStarted !== undefined && Date.now() - saveStarted < this.SAVE_GRACE_MS) return;
+
+        if (this.backgroundAndBurstRules) {
+            const now = Date.now();
+
+            // 3. Burst: record this edit and drop entries outside the window
+            this.recentEdits.set(uriKey, now);
+            for (const [key, time] of this.recentEdits) {
+                if (now - time > this.BURST_WINDOW_MS) {
+                    this.recentEdits.delete(key);
+                }
+            }
+            if (this.recentEdits.size >= this.BURST_MIN_FILES) {
+                const files = [...this.recentEdits.keys()].map(key => vscode.Uri.parse(key).fsPath);
+                this.emitSignal(`burst of edits across ${this.recentEdits.size} files`, files);
+                return;
+            }
+
+            // 2. Background edit: nobody is looking at this document
+            const isVisible = vscode.window.visibleTextEditors.some(e => e.document.uri.toString() === uriKey);
+            if (!isVisible) {
+                this.emitSignal(`edit in background document ${event.document.uri.fsPath}`, [event.document.uri.fsPath]);
+                return;
+            }
+        }
+
+        // 1. Large multi-line insertion (typing inserts a few characters at a time)
+        const largest = event.contentChanges.reduce((a, b) => (b.text.length > a.text.length ? b : a));
+        const insertedLines = largest.text.split('\n').length - 1;
+        if (largest.text.length < this.LARGE_INSERTION_MIN_CHARS || insertedLines < this.minInsertedLines) {
+            return;
+        }
+
+        // A paste of the clipboard looks exactly like this, so rule it out first (see PasteDetector)
+        matchesClipboard(largest.text).then(isPaste => {
+            if (isPaste) return;
+            this.emitSignal(`large insertion (${insertedLines} lines) in ${event.document.uri.fsPath}`, [event.document.uri.fsPath]);
+        });
+    }
+
+    private emitSignal(reason: string, files: string[]) {
+        const now = Date.now();
+        if (now - this.lastSignalTime < this.SIGNAL_COOLDOWN_MS) {
+            return;
+        }
+        this.lastSignalTime = now;
+
+        this.outputChannel.appendLine(`[HEURISTIC] AI activity suspected: ${reason}`);
+        this._onDidSignal.fire({
+            sourceId: this.id,
+            agent: { agentName: this.agentName, model: this.model },
+            files,
+            // A false positive must not spread to files the user saves next
+            guess: true
+        });
     }
 }
@@ -0,0 +1,145 @@
+/**
+ * Structured parsing of Amazon Q log lines.
+ *
+ * Amazon Q logs agentic tool invocations with the tool input serialized on the same line, e.g.
+ *   2025-01-01 10:00:00.000 [debug] ... {"toolUseId":"t-1","name":"fsWrite","input":{"command":"create","path":"/repo/a.ts",...}} conversationId: 8f2c...
+ * Older versions print the input as a JS object literal ({ name: 'fsWrite', path: '/repo/a.ts' }) instead of JSON,
+ * so both forms are supported. Only the tool name field counts: a tool name mentioned elsewhere on the line
+ * (in a message, in file contents) is not an invocation.
+ */
+
+export const AWS_Q_TOOL_NAMES = ['fsWrite', 'fsReplace', 'fsDelete', 'agenticCodeAccepted'] as const;
+
+export type AwsQToolName = typeof AWS_Q_TOOL_NAMES[number];
+
+export interface AwsQToolInvocation {
+    toolName: AwsQToolName;
+    /** Target paths exactly as logged (may be relative to the workspace). */
+    paths: string[];
+    /** Conversation id, falling back to the session/tab id when no conversation id is logged. */
+    conversationId?: string;
+}
+
+const TOOL_NAME_KEYS = ['name', 'toolName', 'tool_name'];
+const PATH_KEYS = ['path', 'filePath', 'filepath', 'absolutePath', 'targetPath'];
+const PATH_LIST_KEYS = ['paths', 'filePaths', 'filepaths'];
+const CONVERSATION_KEYS = ['conversationId', 'conversation_id'];
+const SESSION_KEYS = ['sessionId', 'session_id', 'tabId', 'tabID'];
+
+export function parseAwsQLogLine(line: string): AwsQToolInvocation | null {
+    let toolName: AwsQToolName | undefined;
+    const paths = new Set<string>();
+    let conversationId: string | undefined;
+    let sessionId: string | undefined;
+
+    // 1. Structured: walk every JSON object embedded in the line
+    const objects = extractJsonObjects(line);
+    for (const obj of objects) {
+        walk(obj, (key, value) => {
+            if (TOOL_NAME_KEYS.includes(key) && isToolName(value) && !toolName) {
+                toolName = value;
+            } else if (PATH_KEYS.includes(key) && typeof value === 'string' && value.trim()) {
+                paths.add(value);
+            } else if (PATH_LIST_KEYS.includes(key) && Array.isArray(value)) {
+                value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').forEach(v => paths.add(v));
+            } else if (CONVERSATION_KEYS.includes(key) && typeof value === 'string' && !conversationId) {
+                conversationId = value;
+            } else if (SESSION_KEYS.includes(key) && typeof value === 'string' && !sessionId) {
+                sessionId = value;
+            }
+        });
+    }
+
+    // 2. Unstructured fallback: key/value pairs outside of valid JSON (JS object literals, "key=value")
+    if (!toolName) {
+        const toolRegex = new RegExp(`\\b(?:${TOOL_NAME_KEYS.join('|')})["']?\\s*[:=]\\s*["']?(${AWS_Q_TOOL_NAMES.join('|')})\\b`);
+        const m = toolRegex.exec(line);
+        if (!m) return null;
+        toolName = m[1] as AwsQToolName;
+    }
+    if (paths.size === 0) {
+        const pathRegex = new RegExp(`\\b(?:${PATH_KEYS.join('|')})["']?\\s*[:=]\\s*["']([^"']+)["']`, 'g');
+        let m: RegExpExecArray | null;
+        while ((m = pathRegex.exec(line)) !== null) {
+            paths.add(m[1]);
+        }
+    }
+    if (!conversationId) {
+        conversationId = matchId(line, CONVERSATION_KEYS);
+    }
+    if (!sessionId) {
+        sessionId = matchId(line, SESSION_KEYS);
+    }
+
+    return {
+        toolName,
+        paths: [...paths],
+        conversationId: conversationId || sessionId
+    };
+}
+
+function matchId(line: string, keys: string[]): string | undefined {
+    const regex = new RegExp(`\\b(?:${keys.join('|')})["']?\\s*[:=]\\s*["']?([\\w-]+)`);
+    const m = regex.exec(line);
+    return m ? m[1] : undefined;
+}
+
+function isToolName(value: unknown): value is AwsQToolName {
+    return typeof value === 'string' && (AWS_Q_TOOL_NAMES as readonly string[]).includes(value);
+}
+
+function walk(value: unknown, visit: (key: string, value: unknown) => void) {
+    if (Array.isArray(value)) {
+        value.forEach(v => walk(v, visit));
+    } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            visit(key, child);
+            walk(child, visit);
+        }
+    }
+}
+
+/**
+ * Finds the top-level {...} spans of a line that parse as JSON.
+ * Braces inside string literals are skipped so file contents in the tool input don't confuse the scan.
+ */
+function extractJsonObjects(line: string): unknown[] {
+    const results: unknown[] = [];
+    let start = -1;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (ch === '\\') {
+                escaped = true;
+            } else if (ch === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (ch === '"' && depth > 0) {
+            inString = true;
+        } else if (ch === '{') {
+            if (depth === 0) start = i;
+            depth++;
+        } else if (ch === '}' && depth > 0) {
+            depth--;
+            if (depth === 0) {
+                try {
+                    results.push(JSON.parse(line.substring(start, i + 1)));
+                } catch (e) {
+                    // Not JSON (e.g. a JS object literal), handled by the regex fallback
+                }
+            }
+        }
+    }
+
+    return results;
+}
@@ -2,96 +2,217 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { CheckpointManager } from './checkpointManager';
+import { StringDecoder } from 'string_decoder';
+import { AiSignal, SignalSource } from './signalSource';
+import { parseAwsQLogLine } from './awsQLogParser';
+
+interface TailedLog {
+    size: number;
+    ino: number;
+    // Trailing line fragment of the last read, completed by the next one
+    partialLine: string;
+    // Keeps multi-byte UTF-8 characters split across reads (or chunks) intact
+    decoder: StringDecoder;
+    reading: boolean;
+}
+
+export class AwsQLogWatcher implements SignalSource {
+    public readonly id = 'aws-q-log';
+    public readonly agentName = 'aws-q';
+    public readonly model = 'aws-q'; // Using generic model name
+
+    private _onDidSignal = new vscode.EventEmitter<AiSignal>();
+    public readonly onDidSignal = this._onDidSignal.event;
 
-export class AwsQLogWatcher {
-    private checkpointManager: CheckpointManager;
     private outputChannel: vscode.OutputChannel;
-    private currentLogFile: string | null = null;
-    private currentLogSize: number = 0;
-    private watcher: fs.FSWatcher | null = null;
+    // Log file of the current window's extension host (from context.logUri), if known
+    private ownLogUri: vscode.Uri | undefined;
+    // All log files currently being tailed (several windows/editions can log at once)
+    private tailedLogs: Map<string, TailedLog> = new Map();
+    private startedAt: number = Date.now();
     private intervalId: NodeJS.Timeout | null = null;
+    private discoveryIntervalId: NodeJS.Timeout | null = null;
+    private disposed: boolean = false;
+
+    private readonly POLL_INTERVAL_MS = 1000;
+    // A logged write counts as done if the file changed this recently (log lines are read up to a poll late)
+    private readonly WRITE_CONFIRM_WINDOW_MS = 15000;
+    private readonly DISCOVERY_INTERVAL_MS = 10000;
 
-    constructor(checkpointManager: CheckpointManager) {
-        this.checkpointManager = checkpointManager;
+    // Data directory names of the VS Code editions that can host Amazon Q
+    private static readonly PRODUCT_DIRS = ['Code', 'Code - Insiders', 'VSCodium', 'Cursor'];
+
+    // Configurable via 'gitAi.awsQLog.watchAllWindows'. Off by default: Amazon Q activity in another window
+    // would otherwise attribute this window's human edits to AI.
+    private get watchAllWindows(): boolean {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<boolean>('awsQLog.watchAllWindows', false);
+    }
+
+    constructor(logUri?: vscode.Uri) {
+        this.ownLogUri = logUri;
         this.outputChannel = vscode.window.createOutputChannel("Git AI Log Watcher");
         this.startWatching();
     }
 
     private startWatching() {
-        this.findLogFile().then(logFile => {
-            if (logFile) {
-                this.outputChannel.appendLine(`[WATCHER] Found Amazon Q log file: ${logFile}`);
-                // this.checkpointManager.updateStatus("Git AI: Watching", "eye", `Watching Log: ${path.basename(logFile)}`);
-                this.tailFile(logFile);
-            } else {
-                this.outputChannel.appendLine("[WATCHER] Amazon Q log file not found. Retrying in 10s...");
-                setTimeout(() => this.startWatching(), 10000);
+        this.discoverLogFiles();
+
+        // New sessions, windows and rotated logs show up over time: keep looking
+        this.discoveryIntervalId = setInterval(() => this.discoverLogFiles(), this.DISCOVERY_INTERVAL_MS);
+
+        // fs.watch can be unreliable on some OS/Text editors. Using polling instead.
+        this.intervalId = setInterval(() => {
+            for (const filePath of this.tailedLogs.keys()) {
+                this.checkLogUpdates(filePath);
             }
-        });
+        }, this.POLL_INTERVAL_MS);
     }
 
-    private async findLogFile(): Promise<string | null> {
-        const platform = os.platform();
-        let logsDir = '';
+    private discoverLogFiles() {
+        if (this.disposed) return;
 
-        if (platform === 'darwin') {
-            logsDir = path.join(os.homedir(), 'Library', 'Application Support', 'Code', 'logs');
-        } else if (platform === 'win32') {
-            logsDir = path.join(os.homedir(), 'AppData', 'Roaming', 'Code', 'logs');
-        } else {
-            logsDir = path.join(os.homedir(), '.config', 'Code', 'logs');
+        let candidates: string[];
+        try {
+            candidates = this.findLogFiles();
+        } catch (err) {
+            this.outputChannel.appendLine(`[ERROR] Log discovery failed: ${err}`);
+            return;
         }
 
-        if (!fs.existsSync(logsDir)) {
-            this.outputChannel.appendLine(`[WATCHER] Logs directory does not exist: ${logsDir}`);
-            return null;
+        // 1. Start tailing newly found logs
+        for (const logFile of candidates) {
+            if (!this.tailedLogs.has(logFile)) {
+                this.outputChannel.appendLine(`[WATCHER] Found Amazon Q log file: ${logFile}`);
+                this.tailFile(logFile);
+            }
         }
 
-        // 1. Find latest session directory (timestamp)
-        const sessions = fs.readdirSync(logsDir)
-            .filter(f => /^\d{8}T\d{6}$/.test(f)) // Format: YYYYMMDDTHHMMSS
-            .sort().reverse();
+        // 2. Stop tailing logs of sessions/windows that are gone
+        for (const logFile of [...this.tailedLogs.keys()]) {
+            if (!candidates.includes(logFile)) {
+                this.outputChannel.appendLine(`[WATCHER] No longer watching: ${logFile}`);
+                this.tailedLogs.delete(logFile);
+            }
+        }
 
-        if (sessions.length === 0) return null;
+        if (this.tailedLogs.size === 0) {
+            this.outputChannel.appendLine(`[WATCHER] Amazon Q log file not found. Retrying in ${this.DISCOVERY_INTERVAL_MS / 1000}s...`);
+        }
+    }
 
-        const latestSession = sessions[0];
-        const sessionDir = path.join(logsDir, latestSession);
+    /**
+     * Candidate logs, in order:
+     * 1. The current window: context.logUri is <logs>/<session>/window<N>/exthost/<our extension>,
+     *    so Amazon Q logs into a sibling directory.
+     * 2. (Optional, or when we don't know our own window) Every window of the newest session of each known
+     *    edition (Code, Insiders, VSCodium, Cursor).
+     */
+    private findLogFiles(): string[] {
+        const results = new Set<string>();
 
-        // 2. Search for window*/exthost/amazonwebservices.amazon-q-vscode/Amazon Q Logs.log
-        // "window1", "window2", etc.
-        const windowDirs = fs.readdirSync(sessionDir).filter(f => f.startsWith('window'));
+        if (this.ownLogUri) {
+            const extHostDir = path.dirname(this.ownLogUri.fsPath);
+            this.findInExtHostDir(extHostDir).forEach(f => results.add(f));
+        }
 
-        for (const windowDir of windowDirs) {
-            const extHostDir = path.join(sessionDir, windowDir, 'exthost');
-            if (!fs.existsSync(extHostDir)) continue;
+        // Our own window not having an Amazon Q log (yet) is no reason to listen to the others
+        if (this.watchAllWindows || !this.ownLogUri) {
+            for (const logsDir of this.getLogsRoots()) {
+                if (!fs.existsSync(logsDir)) continue;
 
-            const candidates = fs.readdirSync(extHostDir).filter(f => f.includes('amazon-q-vscode'));
-            for (const candidate of candidates) {
-                const logFile = path.join(extHostDir, candidate, 'Amazon Q Logs.log');
-                if (fs.existsSync(logFile)) {
-                    return logFile;
+                // Find latest session directory (timestamp)
+                const sessions = fs.readdirSync(logsDir)
+                    .filter(f => /^\d{8}T\d{6}$/.test(f)) // Format: YYYYMMDDTHHMMSS
+                    .sort().reverse();
+
+                if (sessions.length === 0) continue;
+
+                const sessionDir = path.join(logsDir, sessions[0]);
+
+                // Search for window*/exthost/amazonwebservices.amazon-q-vscode/Amazon Q Logs.log
+                // "window1", "window2", etc.
+                const windowDirs = fs.readdirSync(sessionDir).filter(f => f.startsWith('window'));
+                for (const windowDir of windowDirs) {
+                    this.findInExtHostDir(path.join(sessionDir, windowDir, 'exthost')).forEach(f => results.add(f));
                 }
             }
         }
 
-        return null;
+        return [...results];
+    }
+
+    private findInExtHostDir(extHostDir: string): string[] {
+        if (!fs.existsSync(extHostDir)) return [];
+
+        const results: string[] = [];
+        const candidates = fs.readdirSync(extHostDir).filter(f => f.includes('amazon-q-vscode'));
+        for (const candidate of candidates) {
+            const logFile = path.join(extHostDir, candidate, 'Amazon Q Logs.log');
+            if (fs.existsSync(logFile)) {
+                results.push(logFile);
+            }
+        }
+        return results;
+    }
+
+    private getLogsRoots(): string[] {
+        const platform = os.platform();
+        let dataDir = '';
+
+        if (platform === 'darwin') {
+            dataDir = path.join(os.homedir(), 'Library', 'Application Support');
+        } else if (platform === 'win32') {
+            dataDir = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+        } else {
+            dataDir = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+        }
+
+        const roots = AwsQLogWatcher.PRODUCT_DIRS.map(product => path.join(dataDir, product, 'logs'));
+
+        // Portable installs / --user-data-dir: derive the logs root from our own log location
+        if (this.ownLogUri) {
+            // <logs>/<session>/window<N>/exthost/<extension>
+            const ownRoot = path.resolve(this.ownLogUri.fsPath, '..', '..', '..', '..');
+            if (!roots.includes(ownRoot)) {
+                roots.unshift(ownRoot);
+            }
+        }
+        return roots;
     }
 
     private tailFile(filePath: string) {
-        this.currentLogFile = filePath;
-        const stats = fs.statSync(filePath);
-        this.currentLogSize = stats.size;
+        let stats: fs.Stats;
+        try {
+            stats = fs.statSync(filePath);
+        } catch (err) {
+            // Rotated or deleted since it was found, the next discovery picks up its successor
+            this.outputChannel.appendLine(`[WATCHER] Can't read ${filePath}: ${err}`);
+            return;
+        }
 
-        this.outputChannel.appendLine(`[WATCHER] Monitoring started (Polling). Current size: ${this.currentLogSize}`);
+        // Logs that existed before we started only matter from now on.
+        // Logs created later (Amazon Q activated late, rotation, new window) are read from the start.
+        const isNew = stats.birthtimeMs > 0 && stats.birthtimeMs >= this.startedAt;
 
-        // fs.watch can be unreliable on some OS/Text editors. Using polling instead.
-        this.intervalId = setInterval(() => {
+        this.tailedLogs.set(filePath, {
+            size: isNew ? 0 : stats.size,
+            ino: stats.ino,
+            partialLine: '',
+            decoder: new StringDecoder('utf8'),
+            reading: false
+        });
+
+        this.outputChannel.appendLine(`[WATCHER] Monitoring started (Polling). Current size: ${stats.size}`);
+        if (isNew) {
             this.checkLogUpdates(filePath);
-        }, 1000); // Check every 1 second
+        }
     }
 
     private checkLogUpdates(filePath: string) {
+        const log = this.tailedLogs.get(filePath);
+        if (!log || log.reading) return;
+
         try {
             // Check if file still exists
             if (!fs.existsSync(filePath)) return;
@@ -99,64 +220,141 @@ export class AwsQLogWatcher {
             const stats = fs.statSync(filePath);
             const newSize = stats.size;
 
-            if (newSize < this.currentLogSize) {
-                this.outputChannel.appendLine(`[WATCHER] Log reduced? Resetting size. ${this.currentLogSize} -> ${newSize}`);
-                this.currentLogSize = newSize;
-                return;
+            // Rotated: same path, different file. Read the new one from the beginning.
+            if (stats.ino !== log.ino) {
+                this.outputChannel.appendLine(`[WATCHER] Log rotated: ${filePath}`);
+                log.ino = stats.ino;
+                log.size = 0;
+                log.partialLine = '';
+                log.decoder = new StringDecoder('utf8');
+            } else if (newSize < log.size) {
+                this.outputChannel.appendLine(`[WATCHER] Log truncated, reading from start. ${log.size} -> ${newSize}`);
+                log.size = 0;
+                log.partialLine = '';
+                log.decoder = new StringDecoder('utf8');
             }
 
-            if (newSize === this.currentLogSize) return;
+            if (newSize === log.size) return;
 
-            // this.outputChannel.appendLine(`[WATCHER] New data detected! ${this.currentLogSize} -> ${newSize} (+${newSize - this.currentLogSize} bytes)`);
+            // this.outputChannel.appendLine(`[WATCHER] New data detected! ${log.size} -> ${newSize} (+${newSize - log.size} bytes)`);
 
             const stream = fs.createReadStream(filePath, {
-                start: this.currentLogSize,
-                end: newSize
+                start: log.size,
+                end: newSize - 1
             });
+            log.reading = true;
 
             let buffer = '';
             stream.on('data', (chunk) => {
-                buffer += chunk.toString();
+                buffer += log.decoder.write(chunk as Buffer);
             });
 
             stream.on('end', () => {
-                this.currentLogSize = newSize;
-                this.processLogContent(buffer);
+                log.reading = false;
+                log.size = newSize;
+                log.partialLine = this.processLogContent(log.partialLine + buffer);
             });
 
             stream.on('error', (err) => {
+                log.reading = false;
+                // The same bytes are read again next time
+                log.decoder = new StringDecoder('utf8');
                 this.outputChannel.appendLine(`[ERROR] Stream error: ${err}`);
             });
 
         } catch (err) {
+            log.reading = false;
             this.outputChannel.appendLine(`[ERROR] Error polling log: ${err}`);
         }
     }
 
-    private processLogContent(content: string) {
+    /**
+     * Processes all complete lines and returns the trailing fragment, completed by the next read.
+     */
+    private processLogContent(content: string): string {
         const lines = content.split('\n');
+        // The last element is either '' (content ended with a newline) or an incomplete line
+        const partialLine = lines.pop() || '';
+
         for (const line of lines) {
             if (!line.trim()) continue;
 
-            // Heuristic string matching
             // We'll log the first 200 chars to debug what we see
             // this.outputChannel.appendLine(`[DEBUG] Line: ${line.substring(0, 150)}`);
 
-            if (line.includes('fsReplace') || line.includes('fsWrite') || line.includes('fsDelete') || line.includes('agenticCodeAccepted')) {
-                // this.outputChannel.appendLine(`[WATCHER] !!! MATCHED SIGNAL !!! : ${line.substring(0, 100)}...`);
-                this.checkpointManager.updateStatus("Git AI: Signal Detected", "broadcast");
-                this.checkpointManager.signalAiActivity();
+            const invocation = parseAwsQLogLine(line);
+            if (!invocation) continue;
+
+            const files = invocation.paths
+                .map(p => this.resolveLoggedPath(p))
+                .filter((p): p is string => p !== null);
+
+            this.outputChannel.appendLine(`[WATCHER] ${invocation.toolName} conversation=${invocation.conversationId || '-'} files=${files.join(', ') || '-'}`);
+
+            this._onDidSignal.fire({
+                sourceId: this.id,
+                agent: { agentName: this.agentName, model: this.model, conversationId: invocation.conversationId },
+                files,
+                // 'agenticCodeAccepted' is logged once the user accepts, the write itself may still be pending.
+                // A logged tool call may also have failed or been rejected: without a change on disk the files
+                // are only claimed once the watcher sees them change.
+                filesOnDisk: invocation.toolName !== 'agenticCodeAccepted' && files.length > 0
+                    && files.every(f => this.changedOnDisk(f, invocation.toolName === 'fsDelete')),
+                toolName: invocation.toolName
+            });
+        }
+
+        return partialLine;
+    }
+
+    private changedOnDisk(filePath: string, deleted: boolean): boolean {
+        try {
+            const stat = fs.statSync(filePath);
+            return !deleted && Date.now() - stat.mtimeMs < this.WRITE_CONFIRM_WINDOW_MS;
+        } catch (e) {
+            // Gone: that's the change of a delete
+            return deleted;
+        }
+    }
+
+    /**
+     * Amazon Q usually logs absolute paths; relative ones are resolved against the workspace folders.
+     */
+    private resolveLoggedPath(loggedPath: string): string | null {
+        if (path.isAbsolute(loggedPath)) {
+            return path.normalize(loggedPath);
+        }
+
+        const folders = vscode.workspace.workspaceFolders || [];
+        for (const folder of folders) {
+            const candidate = path.join(folder.uri.fsPath, loggedPath);
+            if (fs.existsSync(candidate)) {
+                return candidate;
             }
         }
+        // File may not exist (fsDelete / not yet written): assume the first folder
+        return folders.length > 0 ? path.join(folders[0].uri.fsPath, loggedPath) : null;
     }
 
     public getDebugInfo(): string {
-        return `Watched File: ${this.currentLogFile}\nFile Valid: ${fs.existsSync(this.currentLogFile || '')}\nSize: ${this.currentLogSize}`;
+        if (this.tailedLogs.size === 0) {
+            return `Watched Files: none (own log dir: ${this.ownLogUri ? path.dirname(this.ownLogUri.fsPath) : 'unknown'})`;
+        }
+        return [...this.tailedLogs.entries()]
+            .map(([file, log]) => `Watched File: ${file}\nFile Valid: ${fs.existsSync(file)}\nSize: ${log.size}`)
+            .join('\n');
     }
 
     public dispose() {
+        this.disposed = true;
         if (this.intervalId) {
             clearInterval(this.intervalId);
         }
+        if (this.discoveryIntervalId) {
+            clearInterval(this.discoveryIntervalId);
+        }
+        this.tailedLogs.clear();
+        this._onDidSignal.dispose();
+        this.outputChannel.dispose();
     }
 }
@@ -1,26 +1,111 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitAiService, CommitStats, RecentCommitsData } from './gitAiService';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { GitAiService, AgentInfo, CommitStats, RecentCommitsData, StatsFilter, TranscriptMessage, describeStatsFilter } from './gitAiService';
+import { AiSignal } from './signalSource';
+import { CheckpointQueue } from './checkpointQueue';
+import { RepoResolver } from './repoResolver';
+import { PathFilter } from './pathFilter';
+
+// Files touched by a single agent action in one repo, flushed as one 'agent-v1' checkpoint
+interface AgentBatch {
+    agent: AgentInfo;
+    files: Set<string>;
+    messages: TranscriptMessage[];
+    // What made us attribute the files to the agent (see CheckpointEvent.trigger)
+    triggers: Set<string>;
+    // Content of each file when it was added to the batch (see CheckpointEvent.contents)
+    contents: Map<string, string | null>;
+    startedAt: number;
+    timeout: NodeJS.Timeout;
+    // Callers waiting for this batch to be checkpointed (see reportAgentEdit)
+    waiters: { resolve: () => void, reject: (err: any) => void }[];
+}
+
+// A file change waiting for the human debounce (or for an AI signal to claim it)
+interface PendingChange {
+    firstSeen: number;
+    lastSeen: number;
+    // null = file was deleted
+    contentHash: string | null;
+}
+
+// Everything we track per git repository (nested repos, submodules and worktrees get one each)
+interface RepoState {
+    pendingHumanTimeout: NodeJS.Timeout | null;
+    // Files changed since the last checkpoint that are still assumed to be human edits
+    pendingFiles: Map<string, PendingChange>;
+    // Last content hash we saw per file: watcher events without a content change (or echoes of an
+    // agent write that was already attributed) are ignored. Insertion order = least recently changed first.
+    fileHashes: Map<string, string | null>;
+    lastCommitStats: RecentCommitsData | null;
+}
+
+/**
+ * Fired after a checkpoint was successfully written by git-ai.
+ */
+export interface CheckpointEvent {
+    kind: 'human' | 'agent';
+    repoDir: string;
+    files: string[];
+    agent?: AgentInfo;
+    // What caused the checkpoint: 'file-change' (human debounce), a signal source id ('aws-q-log', 'heuristic', 'ipc'),
+    // 'terminal', 'api', 'manual', 'paste', 'reclassify' or 'debug'
+    trigger: string;
+    timestamp: number;
+    // Content of each file when the checkpoint was requested, i.e. what git-ai was asked to attribute
+    // (null = deleted or bigger than 1 MB)
+    contents: Record<string, string | null>;
+}
 
 export class CheckpointManager {
     private gitAiService: GitAiService;
+    private checkpointQueue: CheckpointQueue;
+    private repoResolver: RepoResolver;
+    private pathFilter: PathFilter;
     private outputChannel: vscode.OutputChannel;
     private statusBarItem: vscode.StatusBarItem;
 
-    private pendingHumanTimeout: NodeJS.Timeout | null = null;
-    private pendingFile: string | null = null;
+    // Keyed by repo root
+    private repoStates: Map<string, RepoState> = new Map();
+    // Repo whose stats the status bar shows (follows the active editor)
+    private activeRepo: string | null = null;
 
-    // Time when the last AI activity was detected (log/signal)
+    // Time when the last AI activity was detected (log/signal), and which agent it came from.
+    // Only signals that named no files open this window for every file change.
     private lastAiSignalTime: number = 0;
+    private lastAiAgent: AgentInfo | null = null;
+    private lastAiTrigger: string = 'debug';
     private readonly AI_SIGNAL_WINDOW_MS = 10000; // Increased to 10s for debugging
+    // Files named by recent AI signals: their changes within AI_SIGNAL_WINDOW_MS belong to that agent
+    private recentAiFiles: Map<string, { agent: AgentInfo, trigger: string, time: number }> = new Map();
 
-    // Checkpoint Counters
+    // Checkpoint Counters (shown in the Checkpoints view)
     private aiCheckpointCount: number = 0;
     private humanCheckpointCount: number = 0;
 
-    // Time when the last AI checkpoint finished.
-    private lastAiCheckpointTime: number = 0;
-    private readonly AI_GRACE_PERIOD_MS = 5000;
+    // Bigger files are identified by size + mtime instead of a content hash
+    private readonly MAX_HASHED_FILE_BYTES = 5 * 1024 * 1024;
+    // Content hashes kept per repo; a file that was dropped just counts as changed on its next event
+    private readonly MAX_FILE_HASHES = 2000;
+    // Bigger files are left out of CheckpointEvent.contents
+    private readonly MAX_SNAPSHOT_BYTES = 1024 * 1024;
+
+    // Tool / model pairs listed in the status bar tooltip, the full report lists all of them
+    private readonly MAX_TOOLTIP_BREAKDOWN_ROWS = 8;
+
+    // Agent edits are accumulated per repo while the agent is still writing files
+    private pendingAgentBatches: Map<string, AgentBatch> = new Map();
+    private readonly AGENT_BATCH_MAX_MS = 10000;
+
+    // Agent commands currently running in a terminal (key: the shell execution), see TerminalAgentDetector.
+    // Sessions linger briefly after the command ends because file watcher events arrive late.
+    private agentSessions: Map<object, { agent: AgentInfo, cwd: string, endTimeout?: NodeJS.Timeout }> = new Map();
+    private readonly AGENT_SESSION_LINGER_MS = 2000;
+
+    // Used when a signal doesn't say which agent it came from (e.g. the debug command)
+    private static readonly UNKNOWN_AGENT: AgentInfo = { agentName: "unknown", model: "unknown" };
 
     // Configurable via 'gitAi.humanDebounceMillis'
     private get humanDebounceMs(): number {
@@ -28,26 +113,93 @@ export class CheckpointManager {
         return config.get<number>('humanDebounceMillis', 1500);
     }
 
+    // Configurable via 'gitAi.agentBatchMillis'
+    private get agentBatchMs(): number {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<number>('agentBatchMillis', 1500);
+    }
+
     private get commitDepth(): number {
         const config = vscode.workspace.getConfiguration('gitAi');
         return config.get<number>('statusBarCommitDepth', 1);
     }
 
+    // 'recentCommits' (last N commits) or 'branch' (merge-base(HEAD, base)..HEAD), via 'gitAi.statsScope'
+    private get statsScope(): 'recentCommits' | 'branch' {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<'recentCommits' | 'branch'>('statsScope', 'recentCommits');
+    }
+
+    // Empty = detected from the upstream, via 'gitAi.baseBranch'
+    private get baseBranch(): string {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<string>('baseBranch', '').trim();
+    }
+
+    // Configurable via 'gitAi.statsFilter.author' / '.since' / '.until' / '.paths'
+    private get statsFilter(): StatsFilter {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return {
+            author: config.get<string>('statsFilter.author', '').trim(),
+            since: config.get<string>('statsFilter.since', '').trim(),
+            until: config.get<string>('statsFilter.until', '').trim(),
+            paths: config.get<string[]>('statsFilter.paths', []).map(p => p.trim()).filter(p => p.length > 0)
+        };
+    }
+
     private disposables: vscode.Disposable[] = [];
-    private lastCommitStats: RecentCommitsData | null = null;
 
-    constructor(gitAiService: GitAiService) {
+    private _onDidCheckpoint = new vscode.EventEmitter<CheckpointEvent>();
+    public readonly onDidCheckpoint = this._onDidCheckpoint.event;
+
+    private _onDidChangeStats = new vscode.EventEmitter<RecentCommitsData | null>();
+    public readonly onDidChangeStats = this._onDidChangeStats.event;
+
+    // HEAD or refs/notes/ai of a repo changed (commit, checkout, fetched notes, ...); undefined = can't tell which repo
+    private _onDidChangeHistory = new vscode.EventEmitter<string | undefined>();
+    public readonly onDidChangeHistory = this._onDidChangeHistory.event;
+
+    constructor(gitAiService: GitAiService, checkpointQueue: CheckpointQueue, repoResolver: RepoResolver, pathFilter: PathFilter) {
         this.gitAiService = gitAiService;
+        this.checkpointQueue = checkpointQueue;
+        this.repoResolver = repoResolver;
+        this.pathFilter = pathFilter;
         this.outputChannel = vscode.window.createOutputChannel("Git AI Manager");
         this.outputChannel.appendLine("CheckpointManager initialized.");
 
+        this.disposables.push(this._onDidCheckpoint, this._onDidChangeStats, this._onDidChangeHistory);
+
         // Initialize Status Bar
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
         this.statusBarItem.command = "gitAi.statusBarMenu";
         this.disposables.push(this.statusBarItem);
 
+        // Queue depth / failures are part of the status bar
+        this.disposables.push(this.checkpointQueue.onDidChange(() => this.renderStatus()));
+
+        // Status bar follows the repo of the active editor
+        this.disposables.push(vscode.window.onDidChangeActiveTextEditor(() => this.onActiveRepoMaybeChanged()));
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(e => {
+            for (const removed of e.removed) {
+                const folderPath = removed.uri.fsPath;
+                for (const [repoRoot, state] of this.repoStates) {
+                    if (repoRoot !== folderPath && !repoRoot.startsWith(folderPath + path.sep)) continue;
+                    if (state.pendingHumanTimeout) clearTimeout(state.pendingHumanTimeout);
+                    this.repoStates.delete(repoRoot);
+                }
+            }
+            this.updateLastCommitStats();
+            this.onActiveRepoMaybeChanged();
+        }));
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('gitAi.statsScope') || e.affectsConfiguration('gitAi.baseBranch') || e.affectsConfiguration('gitAi.statsFilter')) {
+                this.updateLastCommitStats();
+            }
+        }));
+
         // Initial Load
-        this.updateLastCommitStats();
+        this.updateLastCommitStats().then(() => this.onActiveRepoMaybeChanged());
         this.statusBarItem.show();
 
         // Register Watchers for Git & Attribution Updates
@@ -55,12 +207,26 @@ export class CheckpointManager {
     }
 
     public dispose() {
+        for (const session of this.agentSessions.values()) {
+            if (session.endTimeout) clearTimeout(session.endTimeout);
+        }
+        this.agentSessions.clear();
+
+        for (const state of this.repoStates.values()) {
+            if (state.pendingHumanTimeout) clearTimeout(state.pendingHumanTimeout);
+        }
+
+        // Don't lose agent edits that are still being collected
+        for (const repoDir of [...this.pendingAgentBatches.keys()]) {
+            this.flushAgentBatch(repoDir);
+        }
         this.disposables.forEach(d => d.dispose());
     }
 
     private registerGitWatchers() {
-        // Watch .git/HEAD and .git/logs/HEAD for commit/branch changes
-        const gitWatcher = vscode.workspace.createFileSystemWatcher('**/.git/{HEAD,logs/HEAD}');
+        // Watch .git/HEAD and .git/logs/HEAD for commit/branch changes, .git/refs/notes/ai for new or fetched attribution notes
+        // (submodules and linked worktrees keep theirs under the superproject's .git/modules and .git/worktrees)
+        const gitWatcher = vscode.workspace.createFileSystemWatcher('**/.git/{HEAD,logs/HEAD,refs/notes/ai,modules/**/HEAD,worktrees/*/HEAD}');
 
         // Watch .git-ai/ for manual attribution updates (optional, but good for responsiveness)
         const gitAiWatcher = vscode.workspace.createFileSystemWatcher('**/.git-ai/**/*');
@@ -68,26 +234,102 @@ export class CheckpointManager {
         this.disposables.push(gitWatcher);
         this.disposables.push(gitAiWatcher);
 
-        const refreshHandler = () => {
+        const gitRefreshHandler = (uri: vscode.Uri) => {
+            // <root>/.git/HEAD belongs to <root>; for submodule/worktree HEADs we don't know which checkout it is, refresh all
+            const match = /^(.*)[\\/]\.git[\\/](?:(?:logs[\\/])?HEAD|refs[\\/]notes[\\/]ai)$/.exec(uri.fsPath);
             // Debounce slightly to avoid reading lock files or partial writes
-            setTimeout(() => this.updateLastCommitStats(), 500);
+            setTimeout(() => {
+                this._onDidChangeHistory.fire(match ? match[1] : undefined);
+                this.updateLastCommitStats(match ? match[1] : undefined);
+            }, 500);
+        };
+
+        const gitAiRefreshHandler = async (uri: vscode.Uri) => {
+            // Only the repo the change happened in needs fresh stats
+            const repoRoot = await this.repoResolver.resolve(uri.fsPath);
+            if (!repoRoot) return;
+            setTimeout(() => this.updateLastCommitStats(repoRoot), 500);
         };
 
-        this.disposables.push(gitWatcher.onDidChange(refreshHandler));
-        this.disposables.push(gitWatcher.onDidCreate(refreshHandler));
-        this.disposables.push(gitAiWatcher.onDidChange(refreshHandler));
-        this.disposables.push(gitAiWatcher.onDidCreate(refreshHandler));
-        this.disposables.push(gitAiWatcher.onDidDelete(refreshHandler));
+        this.disposables.push(gitWatcher.onDidChange(gitRefreshHandler));
+        this.disposables.push(gitWatcher.onDidCreate(gitRefreshHandler));
+        this.disposables.push(gitAiWatcher.onDidChange(gitAiRefreshHandler));
+        this.disposables.push(gitAiWatcher.onDidCreate(gitAiRefreshHandler));
+        this.disposables.push(gitAiWatcher.onDidDelete(gitAiRefreshHandler));
     }
 
-    public async updateLastCommitStats() {
-        try {
-            const depth = this.commitDepth;
-            const stats = await this.gitAiService.getRecentStats(depth);
-            this.lastCommitStats = stats;
-            this.renderStatus();
-        } catch (e) {
-            console.error("Failed to update stats", e);
+    /**
+     * Refreshes the stats of one repo, or of every repo in the workspace if none is given.
+     */
+    public async updateLastCommitStats(repoRoot?: string) {
+        const repos = repoRoot ? [repoRoot] : await this.getWorkspaceRepos();
+
+        await Promise.all(repos.map(async repo => {
+            try {
+                const stats = this.statsScope === 'branch'
+                    ? await this.gitAiService.getBranchStats(repo, this.baseBranch || undefined, this.statsFilter)
+                    : await this.gitAiService.getRecentStats(repo, this.commitDepth, this.statsFilter);
+                this.getRepoState(repo).lastCommitStats = stats;
+
+                if (repo === this.activeRepo) {
+                    this.renderStatus();
+                    this._onDidChangeStats.fire(stats);
+                }
+            } catch (e) {
+                console.error("Failed to update stats", e);
+            }
+        }));
+    }
+
+    /**
+     * Every repo inside the workspace folders (plus the ones files were already resolved to).
+     */
+    public async getWorkspaceRepos(): Promise<string[]> {
+        const repos = new Set<string>(this.repoResolver.getKnownRepos());
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            for (const repo of await this.repoResolver.discoverRepos(folder.uri.fsPath)) {
+                repos.add(repo);
+            }
+        }
+        return [...repos];
+    }
+
+    private getRepoState(repoRoot: string): RepoState {
+        let state = this.repoStates.get(repoRoot);
+        if (!state) {
+            state = { pendingHumanTimeout: null, pendingFiles: new Map(), fileHashes: new Map(), lastCommitStats: null };
+            this.repoStates.set(repoRoot, state);
+        }
+        return state;
+    }
+
+    private async resolveActiveRepo(): Promise<string | null> {
+        const editor = vscode.window.activeTextEditor;
+        if (editor && editor.document.uri.scheme === 'file') {
+            const repo = await this.repoResolver.resolve(editor.document.uri.fsPath);
+            if (repo) return repo;
+        }
+        // Keep showing the last repo when focus moves to an output panel, untitled file, ...
+        if (this.activeRepo && this.repoStates.has(this.activeRepo)) {
+            return this.activeRepo;
+        }
+        const firstFolder = vscode.workspace.workspaceFolders?.[0];
+        const repo = firstFolder ? await this.repoResolver.resolve(firstFolder.uri.fsPath) : null;
+        // First folder isn't a repo itself (e.g. a parent of several): fall back to any repo we know
+        return repo || this.repoStates.keys().next().value || null;
+    }
+
+    private async onActiveRepoMaybeChanged() {
+        const repo = await this.resolveActiveRepo();
+        if (repo === this.activeRepo) return;
+
+        this.activeRepo = repo;
+        this.renderStatus();
+        this._onDidChangeStats.fire(this.getLastCommitStats());
+
+        // A nested repo we haven't loaded stats for yet
+        if (repo && !this.getLastCommitStats(repo)) {
+            this.updateLastCommitStats(repo);
         }
     }
 
@@ -99,21 +341,28 @@ export class CheckpointManager {
             return;
         }
 
-        if (!this.lastCommitStats) {
+        // Checkpoint queue (pending / failed) is shown next to the stats
+        const queue = this.queueStatus();
+        this.statusBarItem.backgroundColor = queue.failed ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+
+        const lastCommitStats = this.getLastCommitStats();
+        const repoLabel = this.repoLabel(this.activeRepo);
+
+        if (!lastCommitStats) {
             // Fallback or Initial State
-            this.statusBarItem.text = `Git AI: $(robot)`;
-            this.statusBarItem.tooltip = "Git AI: Ready (No commit stats available)";
+            this.statusBarItem.text = `Git AI: $(robot)${queue.text}`;
+            this.statusBarItem.tooltip = "Git AI: Ready (No commit stats available)" + (queue.tooltip ? `\n${queue.tooltip}` : '');
             return;
         }
 
-        const data = this.lastCommitStats;
+        const data = lastCommitStats;
         const stats = data.aggregated;
         const total = stats.human_additions + stats.mixed_additions + stats.ai_additions + stats.ai_accepted;
 
         // Avoid division by zero
         if (total === 0) {
-            this.statusBarItem.text = `Git AI: $(robot) 0%`;
-            this.statusBarItem.tooltip = "Last Commit: No additive changes detected.";
+            this.statusBarItem.text = `Git AI: $(robot) 0%${queue.text}`;
+            this.statusBarItem.tooltip = `${this.scopeText(data)}: No additive changes detected.` + (queue.tooltip ? `\n${queue.tooltip}` : '');
             return;
         }
 
@@ -122,17 +371,30 @@ export class CheckpointManager {
         const mixedPct = Math.round((stats.mixed_additions / total) * 100);
         const humanPct = Math.round((stats.human_additions / total) * 100);
 
-        this.statusBarItem.text = `Git AI: $(robot) ${aiPct}%  $(group-by-ref-type) ${mixedPct}%  $(person) ${humanPct}%`;
+        this.statusBarItem.text = `Git AI: $(robot) ${aiPct}%  $(group-by-ref-type) ${mixedPct}%  $(person) ${humanPct}%${queue.text}`;
 
         // Detailed Tooltip (Markdown Table)
         const md = new vscode.MarkdownString();
         md.isTrusted = true;
         md.supportHtml = true;
 
-        const depth = this.commitDepth;
-        const scopeText = depth > 1 ? `Last ${depth} Commits` : `Last Commit`;
-
-        md.appendMarkdown(`### Authorship Stats (${scopeText})\n\n`);
+        md.appendMarkdown(`### Authorship Stats (${this.scopeText(data)}${repoLabel ? ` · ${repoLabel}` : ''})\n\n`);
+
+        // Branch stats come from a single range, there are no per-commit rows
+        if (data.branchScope) {
+            const scope = data.branchScope;
+            md.appendMarkdown(`| AI | Mix | Human | % (A/M/H) |\n`);
+            md.appendMarkdown(`| -- | --- | ----- | --------- |\n`);
+            md.appendMarkdown(`| ${stats.ai_additions + stats.ai_accepted} | ${stats.mixed_additions} | ${stats.human_additions} | ${aiPct}/${mixedPct}/${humanPct} |\n\n`);
+            md.appendMarkdown(`---\n`);
+            md.appendMarkdown(`**Total Additions**: ${total} lines in ${scope.commitCount} commit(s) since \`${scope.mergeBase.substring(0, 7)}\`\n`);
+            md.appendMarkdown(this.buildBreakdownSection(stats.tool_model_breakdown, total, '####', this.MAX_TOOLTIP_BREAKDOWN_ROWS));
+            if (queue.tooltip) {
+                md.appendMarkdown(`\n\n${queue.tooltip}`);
+            }
+            this.statusBarItem.tooltip = md;
+            return;
+        }
 
         // Table Header
         md.appendMarkdown(`| No | Commit | Message | Author | AI | Mix | Human | % (A/M/H) |\n`);
@@ -172,11 +434,50 @@ export class CheckpointManager {
 
         md.appendMarkdown(`---\n`);
         md.appendMarkdown(`**Total Additions**: ${total} lines\n`);
+        md.appendMarkdown(this.buildBreakdownSection(stats.tool_model_breakdown, total, '####', this.MAX_TOOLTIP_BREAKDOWN_ROWS));
         // md.appendMarkdown(`**Waiting for AI**: ${stats.time_waiting_for_ai}ms`); // Removed as per request
 
+        if (queue.tooltip) {
+            md.appendMarkdown(`\n\n${queue.tooltip}`);
+        }
+
         this.statusBarItem.tooltip = md;
     }
 
+    public scopeText(data: RecentCommitsData): string {
+        const filterText = describeStatsFilter(data.filter);
+        let scope: string;
+        if (data.branchScope) {
+            scope = `${data.branchScope.branch} vs ${data.branchScope.base}`;
+        } else {
+            const depth = this.commitDepth;
+            scope = depth > 1 ? `Last ${depth} Commits` : `Last Commit`;
+        }
+        return filterText ? `${scope} · ${filterText}` : scope;
+    }
+
+    // Repo name, only worth showing when the workspace has more than one repo
+    private repoLabel(repoRoot: string | null): string {
+        if (!repoRoot || this.repoStates.size < 2) return '';
+        return path.basename(repoRoot);
+    }
+
+    private queueStatus(): { text: string, tooltip: string, failed: boolean } {
+        const state = this.checkpointQueue.getState();
+        let text = '';
+        const tooltip: string[] = [];
+
+        if (state.pending > 0) {
+            text += `  $(sync~spin) ${state.pending}`;
+            tooltip.push(`Checkpoints queued: ${state.pending} (${state.running} running)`);
+        }
+        if (state.failed > 0) {
+            text += `  $(warning) ${state.failed}`;
+            tooltip.push(`Failed checkpoints: ${state.failed}${state.lastError ? ` (last error: ${state.lastError})` : ''}`);
+        }
+        return { text, tooltip: tooltip.join('\n\n'), failed: state.failed > 0 };
+    }
+
     // Adapter for legacy calls (Watcher)
     public updateStatus(text: string, icon: string = "eye", tooltip: string = "") {
         if (text.includes("Signal")) {
@@ -190,42 +491,83 @@ export class CheckpointManager {
         }
     }
 
-    public signalAiActivity() {
-        this.lastAiSignalTime = Date.now();
-        // this.outputChannel.appendLine("[MANAGER] AI Activity Signal received.");
+    public signalAiActivity(signal?: AiSignal) {
+        const agent = signal ? signal.agent : CheckpointManager.UNKNOWN_AGENT;
+        const trigger = signal ? signal.sourceId : 'debug';
+        // A guess without files would claim every change in the window
+        if (signal && signal.guess && signal.files.length === 0) return;
+        this.rememberAiSignal(signal ? signal.files : [], agent, trigger);
+        // this.outputChannel.appendLine(`[MANAGER] AI Activity Signal received from ${signal?.sourceId}.`);
 
         this.renderStatus("$(broadcast) Signal!");
 
+        // Structured signal: the agent told us exactly which files it wrote.
+        // Checkpoint those directly instead of guessing from whichever file changed last.
+        if (signal && signal.filesOnDisk && signal.files.length > 0) {
+            const messages: TranscriptMessage[] = signal.toolName
+                ? [{ type: 'tool_use', name: signal.toolName, input: { paths: signal.files }, timestamp: new Date().toISOString() }]
+                : [];
+
+            this.requestAgentCheckpoint(signal.files, agent, trigger, messages);
+            return;
+        }
+
         // Debug Toast
         // vscode.window.showInformationMessage("Git AI: AWS Q Signal Detected!");
 
-        // FIX: If we have a pending human checkpoint, it means a file changed recently.
-        // If this signal arrives now, that change was likely caused by AI.
-        // Upgrade it to an AI checkpoint immediately.
-        if (this.pendingHumanTimeout) {
-            // this.outputChannel.appendLine("[MANAGER] Upgrading pending Human checkpoint to AWS Q due to signal.");
-            this.renderStatus("$(arrow-up) Upgrading...");
-            clearTimeout(this.pendingHumanTimeout);
-            this.pendingHumanTimeout = null;
+        // FIX: If we have pending human changes, files changed recently.
+        // If this signal arrives now, those changes were likely caused by AI.
+        // Upgrade them to an AI checkpoint immediately.
+        // If the signal names files (even unsaved ones), exactly those are upgraded;
+        // otherwise every pending file that changed within the signal window.
+        const signalFiles = signal && signal.files.length > 0 ? new Set(signal.files) : null;
+        const now = Date.now();
 
-            if (this.pendingFile) {
-                this.requestAwsQCheckpoint(this.pendingFile);
+        for (const state of this.repoStates.values()) {
+            const upgraded: string[] = [];
+            for (const [filePath, change] of state.pendingFiles) {
+                const matches = signalFiles
+                    ? signalFiles.has(filePath)
+                    : now - change.lastSeen < this.AI_SIGNAL_WINDOW_MS;
+                if (matches) upgraded.push(filePath);
             }
+            if (upgraded.length === 0) continue;
+
+            // this.outputChannel.appendLine(`[MANAGER] Upgrading pending Human changes to ${agent.agentName} due to signal: ${upgraded.join(', ')}`);
+            this.renderStatus("$(arrow-up) Upgrading...");
+            // Taken out synchronously so the human debounce can't claim them while the batch is being resolved
+            this.removePendingFiles(state, upgraded);
+            this.requestAgentCheckpoint(upgraded, agent, trigger);
         }
     }
 
-    public handleFileChange(uri: vscode.Uri) {
+    public async handleFileChange(uri: vscode.Uri) {
         if (uri.scheme !== 'file') return;
 
         const filePath = uri.fsPath;
 
-        // Anti-Loop: Ignore .git, .git-ai, and other system folders
-        if (filePath.includes(`${path.sep}.git${path.sep}`) || filePath.includes(`${path.sep}.git-ai${path.sep}`) || filePath.includes(`${path.sep}node_modules${path.sep}`) || filePath.includes('.DS_Store')) {
+        // Anti-Loop & noise: .git, .git-ai, 'gitAi.exclude' / 'files.exclude' globs and git-ignored paths
+        if (await this.pathFilter.isExcluded(filePath)) {
+            return;
+        }
+
+        const repoRoot = await this.repoResolver.resolve(filePath);
+        if (!repoRoot) return;
+
+        // Same content as last time: a touch, a duplicate watcher event, or an agent write we already attributed
+        const state = this.getRepoState(repoRoot);
+        const contentHash = await this.hashFile(filePath);
+        if (state.fileHashes.has(filePath) && state.fileHashes.get(filePath) === contentHash) {
             return;
         }
+        this.rememberHash(state, filePath, contentHash);
 
-        // Store probable file for race-condition handling
-        this.pendingFile = filePath;
+        // An agent command is running in a terminal: the change is the agent's, skip the human debounce
+        const session = this.findAgentSession(filePath);
+        if (session) {
+            this.requestAgentCheckpoint([filePath], session.agent, 'terminal');
+            return;
+        }
 
         // Strategy: Always assume Human first (Buffered).
         // If it's actually AI, the LogWatcher will fire 'signalAiActivity' shortly.
@@ -233,14 +575,116 @@ export class CheckpointManager {
         // This handles the "File Change happens before Log" race condition perfectly.
 
         // Exception: If we *just* had an AI signal (e.g. log came first), we can shortcut.
+        // A signal that named files only claims those; one without files claims every change in the window.
         const now = Date.now();
-        const timeSinceAi = now - this.lastAiSignalTime;
-        if (timeSinceAi < this.AI_SIGNAL_WINDOW_MS) {
-            // this.outputChannel.appendLine(`[MANAGER] Pre-correlated File Change to AI (delta=${timeSinceAi}ms). Path=${filePath}`);
-            this.requestAwsQCheckpoint(filePath);
+        const claim = this.recentAiFiles.get(filePath);
+        if (claim && now - claim.time < this.AI_SIGNAL_WINDOW_MS) {
+            this.requestAgentCheckpoint([filePath], claim.agent, claim.trigger);
+        } else if (now - this.lastAiSignalTime < this.AI_SIGNAL_WINDOW_MS) {
+            // this.outputChannel.appendLine(`[MANAGER] Pre-correlated File Change to AI (delta=${now - this.lastAiSignalTime}ms). Path=${filePath}`);
+            this.requestAgentCheckpoint([filePath], this.lastAiAgent || CheckpointManager.UNKNOWN_AGENT, this.lastAiTrigger);
         } else {
-            this.requestHumanCheckpoint();
+            // Tracked per file, so a later AI signal can claim exactly the files it wrote
+            const existing = state.pendingFiles.get(filePath);
+            state.pendingFiles.set(filePath, { firstSeen: existing ? existing.firstSeen : now, lastSeen: now, contentHash });
+            this.requestHumanCheckpoint(repoRoot);
+        }
+    }
+
+    private rememberAiSignal(files: string[], agent: AgentInfo, trigger: string) {
+        const now = Date.now();
+        if (files.length === 0) {
+            this.lastAiSignalTime = now;
+            this.lastAiAgent = agent;
+            this.lastAiTrigger = trigger;
+            return;
+        }
+
+        for (const [filePath, claim] of this.recentAiFiles) {
+            if (now - claim.time >= this.AI_SIGNAL_WINDOW_MS) {
+                this.recentAiFiles.delete(filePath);
+            }
+        }
+        for (const filePath of files) {
+            this.recentAiFiles.set(filePath, { agent, trigger, time: now });
+        }
+    }
+
+    private removePendingFiles(state: RepoState, filePaths: string[]) {
+        for (const filePath of filePaths) {
+            state.pendingFiles.delete(filePath);
+        }
+        // Nothing left for the human checkpoint
+        if (state.pendingFiles.size === 0 && state.pendingHumanTimeout) {
+            clearTimeout(state.pendingHumanTimeout);
+            state.pendingHumanTimeout = null;
+        }
+    }
+
+    private async hashFile(filePath: string): Promise<string | null> {
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (!stat.isFile() || stat.size > this.MAX_HASHED_FILE_BYTES) {
+                return `${stat.size}:${stat.mtimeMs}`;
+            }
+            const content = await fs.promises.readFile(filePath);
+            return crypto.createHash('sha1').update(content).digest('hex');
+        } catch (e) {
+            // Deleted
+            return null;
+        }
+    }
+
+    private rememberHash(state: RepoState, filePath: string, hash: string | null) {
+        // Move to the end (most recently changed)
+        state.fileHashes.delete(filePath);
+        state.fileHashes.set(filePath, hash);
+        while (state.fileHashes.size > this.MAX_FILE_HASHES) {
+            state.fileHashes.delete(state.fileHashes.keys().next().value!);
+        }
+    }
+
+    private async readSnapshot(filePath: string): Promise<string | null> {
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (!stat.isFile() || stat.size > this.MAX_SNAPSHOT_BYTES) return null;
+            return await fs.promises.readFile(filePath, 'utf8');
+        } catch (e) {
+            // Deleted
+            return null;
+        }
+    }
+
+    // Reads are started right away, so the contents are those of the moment the checkpoint was requested
+    private readSnapshots(filePaths: string[]): Promise<Record<string, string | null>> {
+        return Promise.all(filePaths.map(f => this.readSnapshot(f)))
+            .then(contents => Object.fromEntries(filePaths.map((f, i) => [f, contents[i]])));
+    }
+
+    public beginAgentSession(key: object, agent: AgentInfo, cwd: string) {
+        this.agentSessions.set(key, { agent, cwd });
+        this.renderStatus(`$(terminal) ${agent.agentName}`);
+    }
+
+    /**
+     * Returns false if no session was registered for the key.
+     */
+    public endAgentSession(key: object): boolean {
+        const session = this.agentSessions.get(key);
+        if (!session) return false;
+
+        session.endTimeout = setTimeout(() => this.agentSessions.delete(key), this.AGENT_SESSION_LINGER_MS);
+        return true;
+    }
+
+    // Only files under the agent's working directory are its changes
+    private findAgentSession(filePath: string): { agent: AgentInfo, cwd: string } | null {
+        for (const session of this.agentSessions.values()) {
+            if (filePath === session.cwd || filePath.startsWith(session.cwd + path.sep)) {
+                return session;
+            }
         }
+        return null;
     }
 
     /**
@@ -249,100 +693,396 @@ export class CheckpointManager {
      * If an AI Signal arrives during this buffer, we CANCEL the Human Checkpoint and upgrade to AI.
      * If the buffer expires and no AI signal came, we confirm it was Human.
      */
-    public requestHumanCheckpoint() {
-        const now = Date.now();
-
-        // 1. Grace Period Check (Don't double-save after AI)
-        if (now - this.lastAiCheckpointTime < this.AI_GRACE_PERIOD_MS) {
-            return;
-        }
+    public requestHumanCheckpoint(repoRoot: string) {
+        const state = this.getRepoState(repoRoot);
 
-        // 2. Buffer/Debounce
+        // Buffer/Debounce
+        // (echoes of AI writes never get here, see the content hash check in handleFileChange)
         // We wait 'humanDebounceMs' to see if an AI signal arrives OR to group rapid valid-saves.
-        if (this.pendingHumanTimeout) {
-            clearTimeout(this.pendingHumanTimeout);
-            this.pendingHumanTimeout = null;
+        if (state.pendingHumanTimeout) {
+            clearTimeout(state.pendingHumanTimeout);
+            state.pendingHumanTimeout = null;
         }
 
-        this.pendingHumanTimeout = setTimeout(() => {
+        state.pendingHumanTimeout = setTimeout(() => {
             // The buffer expired. No AI signal intercepted us.
             // Therefore: It is Human.
-            this.executeHumanCheckpoint();
+            state.pendingHumanTimeout = null;
+            this.executeHumanCheckpoint(repoRoot);
         }, this.humanDebounceMs);
     }
 
-    public requestAwsQCheckpoint(filePath: string) {
-        // Throttling: specific to preventing spam from a single "action" that touches multiple files
-        if (Date.now() - this.lastAiCheckpointTime < 500) {
-            return;
+    /**
+     * Agent actions often touch several files in quick succession (and across repos).
+     * Instead of one checkpoint per file, every file is added to the open batch of its repo;
+     * the batch is flushed once no new file arrived for 'agentBatchMs' (or after AGENT_BATCH_MAX_MS).
+     */
+    public requestAgentCheckpoint(filePaths: string[], agent: AgentInfo, trigger: string, messages: TranscriptMessage[] = []) {
+        // Callers don't wait for the batching, so failures (repo resolution, path filter, ...) end up in the log
+        this.addToAgentBatches(filePaths, agent, trigger, messages).catch(err => {
+            this.outputChannel.appendLine(`[ERROR] Failed to queue ${agent.agentName} checkpoint for ${filePaths.join(', ')}: ${err instanceof Error ? err.message : err}`);
+        });
+    }
+
+    private async addToAgentBatches(filePaths: string[], agent: AgentInfo, trigger: string, messages: TranscriptMessage[]): Promise<Set<AgentBatch>> {
+        const batches = new Set<AgentBatch>();
+
+        // this.outputChannel.appendLine(`[MANAGER] ${agent.agentName} Checkpoint requested. Cancelling pending human tasks.`);
+
+        // Resolve first so that all files of one call land in their batches together
+        const excluded = await Promise.all(filePaths.map(f => this.pathFilter.isExcluded(f)));
+        const repoDirs = await Promise.all(filePaths.map((f, i) => excluded[i] ? null : this.repoResolver.resolve(f)));
+        const hashes = await Promise.all(filePaths.map((f, i) => repoDirs[i] ? this.hashFile(f) : null));
+        const contents = await Promise.all(filePaths.map((f, i) => repoDirs[i] ? this.readSnapshot(f) : null));
+
+        // Group by repo root, one batch per repo
+        for (let i = 0; i < filePaths.length; i++) {
+            const filePath = filePaths[i];
+            const repoDir = repoDirs[i];
+            if (!repoDir) continue;
+
+            // The agent's now: no longer part of the human checkpoint, and its watcher echo is ignored
+            const state = this.getRepoState(repoDir);
+            this.removePendingFiles(state, [filePath]);
+            this.rememberHash(state, filePath, hashes[i]);
+
+            let batch = this.pendingAgentBatches.get(repoDir);
+
+            // A different agent (or conversation) started writing: close the previous action first
+            if (batch && (batch.agent.agentName !== agent.agentName || batch.agent.conversationId !== agent.conversationId)) {
+                this.flushAgentBatch(repoDir);
+                batch = undefined;
+            }
+
+            if (!batch) {
+                batch = {
+                    agent,
+                    files: new Set(),
+                    messages: [],
+                    triggers: new Set(),
+                    contents: new Map(),
+                    startedAt: Date.now(),
+                    timeout: setTimeout(() => this.flushAgentBatch(repoDir), this.agentBatchMs),
+                    waiters: []
+                };
+                this.pendingAgentBatches.set(repoDir, batch);
+            } else if (Date.now() - batch.startedAt < this.AGENT_BATCH_MAX_MS) {
+                // Sliding window: keep collecting while the agent is still writing
+                clearTimeout(batch.timeout);
+                batch.timeout = setTimeout(() => this.flushAgentBatch(repoDir), this.agentBatchMs);
+            }
+
+            batch.files.add(filePath);
+            batch.contents.set(filePath, contents[i]);
+            batch.triggers.add(trigger);
+            batches.add(batch);
+            for (const message of messages) {
+                if (!batch.messages.includes(message)) {
+                    batch.messages.push(message);
+                }
+            }
         }
 
-        // this.outputChannel.appendLine("[MANAGER] AWS Q Checkpoint requested. Cancelling pending human tasks.");
+        return batches;
+    }
+
+    /**
+     * Entry point for edits reported by other extensions (see api.ts).
+     * Goes through the same batching as signals from our own sources.
+     */
+    public async reportAgentEdit(filePaths: string[], agent: AgentInfo, messages: TranscriptMessage[] = []): Promise<void> {
+        const inWorkspace = filePaths.filter(f => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(f)));
+        if (inWorkspace.length === 0) {
+            throw new Error("None of the reported files belong to an open workspace folder.");
+        }
 
-        if (this.pendingHumanTimeout) {
-            clearTimeout(this.pendingHumanTimeout);
-            this.pendingHumanTimeout = null;
+        this.rememberAiSignal(inWorkspace, agent, 'api');
+        const batches = await this.addToAgentBatches(inWorkspace, agent, 'api', messages);
+        if (batches.size === 0) {
+            throw new Error("None of the reported files belong to a git repository (or they are all excluded).");
         }
 
-        // Execute immediately
-        this.executeAwsQCheckpoint(filePath);
-        this.lastAiCheckpointTime = Date.now();
+        // Resolves once every batch the files went into has been checkpointed
+        return Promise.all([...batches].map(batch => new Promise<void>((resolve, reject) => {
+            batch.waiters.push({ resolve, reject });
+        }))).then(() => undefined);
     }
 
-    private executeHumanCheckpoint() {
-        const now = Date.now();
-        if (now - this.lastAiCheckpointTime < this.AI_GRACE_PERIOD_MS) {
-            return;
+    /**
+     * Manual attribution (see ManualAttribution): checkpoints `contentBefore` as human, then `contentAfter` as
+     * `agent` (or as human again if null). The lines that differ between the two end up attributed to that author,
+     * whatever was recorded for them before. The file on disk is not touched.
+     */
+    public async reattribute(filePath: string, contentBefore: string, contentAfter: string, agent: AgentInfo | null, trigger: string, messages: TranscriptMessage[] = []): Promise<void> {
+        if (await this.pathFilter.isExcluded(filePath)) {
+            throw new Error("The file is excluded from tracking ('gitAi.exclude', files.exclude or .gitignore).");
         }
-        // Pass the pending file (or null) to determine CWD
-        this.gitAiService.checkpointHuman(this.pendingFile || undefined)
-            .then(() => {
+        const repoDir = await this.repoResolver.resolve(filePath);
+        if (!repoDir) {
+            throw new Error("The file does not belong to a git repository.");
+        }
+
+        // Whatever was collected automatically for this repo goes first, and this file is claimed now
+        this.flushAgentBatch(repoDir);
+        this.removePendingFiles(this.getRepoState(repoDir), [filePath]);
+
+        const files = [filePath];
+        const before = this.checkpointQueue.enqueue({ kind: 'human', repoDir, files, dirtyFiles: { [filePath]: contentBefore } });
+        const after = agent
+            ? this.checkpointQueue.enqueue({ kind: 'agent', repoDir, files, agent, messages, dirtyFiles: { [filePath]: contentAfter } })
+            : this.checkpointQueue.enqueue({ kind: 'human', repoDir, files, dirtyFiles: { [filePath]: contentAfter } });
+
+        await Promise.all([before, after]);
+        // A reclassified checkpoint was counted already, see moveCheckpointCount
+        if (trigger !== 'reclassify') {
+            if (agent) {
+                this.aiCheckpointCount++;
+            } else {
+                this.humanCheckpointCount++;
+            }
+        }
+        this.renderStatus(agent ? `$(check) Marked as ${agent.agentName}` : "$(check) Marked as Human");
+        const contents = { [filePath]: contentAfter };
+        this._onDidCheckpoint.fire(agent
+            ? { kind: 'agent', repoDir, files, agent, trigger, timestamp: Date.now(), contents }
+            : { kind: 'human', repoDir, files, trigger, timestamp: Date.now(), contents });
+    }
+
+    /**
+     * A checkpoint was reclassified (see CheckpointTimeline): it now counts for its new author.
+     */
+    public moveCheckpointCount(from: 'human' | 'agent', to: 'human' | 'agent') {
+        if (from === to) return;
+        if (from === 'agent') {
+            this.aiCheckpointCount = Math.max(0, this.aiCheckpointCount - 1);
+            this.humanCheckpointCount++;
+        } else {
+            this.humanCheckpointCount = Math.max(0, this.humanCheckpointCount - 1);
+            this.aiCheckpointCount++;
+        }
+    }
+
+    private flushAgentBatch(repoDir: string) {
+        const batch = this.pendingAgentBatches.get(repoDir);
+        if (!batch) return;
+
+        clearTimeout(batch.timeout);
+        this.pendingAgentBatches.delete(repoDir);
+
+        this.executeAgentCheckpoint(repoDir, [...batch.files], batch.agent, [...batch.triggers].join(', '), batch.messages, Object.fromEntries(batch.contents))
+            .then(() => batch.waiters.forEach(w => w.resolve()), err => batch.waiters.forEach(w => w.reject(err)));
+    }
+
+    private executeHumanCheckpoint(repoDir: string) {
+        const state = this.getRepoState(repoDir);
+        const files = [...state.pendingFiles.keys()];
+        state.pendingFiles.clear();
+        if (files.length === 0) return;
+
+        // A human checkpoint claims every change git-ai hasn't seen yet: AI edits still being
+        // batched for this repo must be checkpointed first (the queue is FIFO per repo)
+        this.flushAgentBatch(repoDir);
+
+        const contents = this.readSnapshots(files);
+        this.checkpointQueue.enqueue({ kind: 'human', repoDir, files })
+            .then(async () => {
                 this.humanCheckpointCount++;
                 this.renderStatus();
+                this._onDidCheckpoint.fire({ kind: 'human', repoDir, files, trigger: 'file-change', timestamp: Date.now(), contents: await contents });
             })
             .catch(e => console.error(e));
     }
 
-    private executeAwsQCheckpoint(filePath: string) {
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
-        if (workspaceFolder) {
-            this.gitAiService.checkpointAwsQ(workspaceFolder.uri.fsPath, filePath)
-                .then(() => {
-                    this.aiCheckpointCount++;
-                    this.renderStatus("$(check) AI Saved");
-                })
-                .catch(e => console.error(e));
+    private executeAgentCheckpoint(repoDir: string, filePaths: string[], agent: AgentInfo, trigger: string, messages: TranscriptMessage[], contents: Record<string, string | null>): Promise<void> {
+        return this.checkpointQueue.enqueue({ kind: 'agent', repoDir, files: filePaths, agent, messages })
+            .then(() => {
+                this.aiCheckpointCount++;
+                this.renderStatus(filePaths.length > 1 ? `$(check) AI Saved (${filePaths.length} files)` : "$(check) AI Saved");
+                this._onDidCheckpoint.fire({ kind: 'agent', repoDir, files: filePaths, agent, trigger, timestamp: Date.now(), contents });
+            })
+            .catch(e => {
+                console.error(e);
+                throw e;
+            });
+    }
+
+    public getCheckpointCounts(): { ai: number, human: number } {
+        return { ai: this.aiCheckpointCount, human: this.humanCheckpointCount };
+    }
+
+    /**
+     * Stats of the given repo, or of the repo the status bar currently shows.
+     */
+    public getLastCommitStats(repoRoot?: string): RecentCommitsData | null {
+        const repo = repoRoot || this.activeRepo;
+        return repo ? this.repoStates.get(repo)?.lastCommitStats || null : null;
+    }
+
+    /**
+     * Repos with stats to report on: the only one, or the user's pick among them (or all of them).
+     * Null if there's nothing to report or the pick was cancelled.
+     */
+    public async pickStatsRepos(): Promise<string[] | null> {
+        const repos = [...this.repoStates.keys()].filter(r => this.getLastCommitStats(r)).sort();
+        if (repos.length === 0) {
+            vscode.window.showInformationMessage("Git AI: No stats available to report.");
+            return null;
         }
+        if (repos.length === 1) return repos;
+
+        const allItem = { label: "$(list-flat) All Repositories", repos };
+        const items = [allItem, ...repos.map(r => ({ label: path.basename(r), description: r, repos: [r] }))];
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: "Select the repository to report on" });
+        return choice ? choice.repos : null;
     }
+
+    /**
+     * Quick pick to set one of the stats filters (author, period, paths) or clear them.
+     * Filters are stored in the workspace settings: paths and people differ between projects.
+     */
+    public async configureStatsFilter() {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        const filter = this.statsFilter;
+
+        const author = { label: "$(person) Author", description: filter.author || "everyone" };
+        const period = { label: "$(calendar) Period", description: [filter.since && `since ${filter.since}`, filter.until && `until ${filter.until}`].filter(Boolean).join(' ') || "all time" };
+        const paths = { label: "$(file-directory) Paths", description: filter.paths.join(', ') || "all" };
+        const clear = { label: "$(clear-all) Clear Filters" };
+        const items = describeStatsFilter(filter) ? [author, period, paths, clear] : [author, period, paths];
+
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: "Filter the commits included in the stats" });
+        if (choice === author) {
+            // People from the current stats, so they don't have to be typed
+            const known = new Set((this.getLastCommitStats()?.commits || []).map(c => c.author));
+            const everyone = { label: "Everyone", value: '' };
+            const me = { label: "Me", description: "git user.email of the repository", value: 'me' };
+            const other = { label: "Other...", description: "Name or email, or a part of it", value: undefined as string | undefined };
+            const people = [...known].sort().map(name => ({ label: name, description: '', value: name as string | undefined }));
+            const picked = await vscode.window.showQuickPick([everyone, me, ...people, other], { placeHolder: "Author" });
+            if (!picked) return;
+
+            let value = picked.value;
+            if (picked === other) {
+                value = await vscode.window.showInputBox({ prompt: "Author name or email (or a part of it)", value: filter.author === 'me' ? '' : filter.author });
+                if (value === undefined) return;
+            }
+            await config.update('statsFilter.author', value!.trim(), target);
+        } else if (choice === period) {
+            const presets = [
+                { label: "All Time", since: '' },
+                { label: "Last 7 Days", since: '7 days ago' },
+                { label: "Last 14 Days", since: '14 days ago' },
+                { label: "Last 30 Days", since: '30 days ago' },
+                { label: "Last 90 Days", since: '90 days ago' }
+            ];
+            const custom = { label: "Custom Range...", description: "e.g. a sprint: 2025-01-06 to 2025-01-17", since: undefined as string | undefined };
+            const picked = await vscode.window.showQuickPick([...presets, custom], { placeHolder: "Period" });
+            if (!picked) return;
+
+            let since = picked.since;
+            let until = '';
+            if (picked === custom) {
+                since = await vscode.window.showInputBox({ prompt: "Since (a date or e.g. '2 weeks ago')", value: filter.since });
+                if (since === undefined) return;
+                until = await vscode.window.showInputBox({ prompt: "Until (leave empty for now)", value: filter.until }) ?? '';
+            }
+            await config.update('statsFilter.since', since!.trim(), target);
+            await config.update('statsFilter.until', until.trim(), target);
+        } else if (choice === paths) {
+            const value = await vscode.window.showInputBox({
+                prompt: "Pathspecs separated by commas (e.g. src/, lib/*.ts). Leave empty for all paths.",
+                value: filter.paths.join(', ')
+            });
+            if (value === undefined) return;
+            await config.update('statsFilter.paths', value.split(',').map(p => p.trim()).filter(p => p.length > 0), target);
+        } else if (choice === clear) {
+            for (const key of ['statsFilter.author', 'statsFilter.since', 'statsFilter.until', 'statsFilter.paths']) {
+                await config.update(key, undefined, target);
+            }
+        }
+    }
+
     public async openFullStats() {
-        if (!this.lastCommitStats) {
-            vscode.window.showInformationMessage("Git AI: No stats available to report.");
-            return;
+        const selected = await this.pickStatsRepos();
+        if (!selected) return;
+
+        let content = `# Git AI Authorship Report\n\n`;
+        if (selected.length === 1) {
+            content += `**Scope:** ${this.scopeText(this.getLastCommitStats(selected[0])!)}\n`;
+        }
+        content += `**Generated:** ${new Date().toLocaleString()}\n\n`;
+
+        for (const repo of selected) {
+            if (selected.length > 1) {
+                content += `# ${path.basename(repo)}\n\n`;
+                content += `**Scope:** ${this.scopeText(this.getLastCommitStats(repo)!)}\n\n`;
+            }
+            content += this.buildReportSection(this.getLastCommitStats(repo)!);
         }
 
-        const data = this.lastCommitStats;
+        const doc = await vscode.workspace.openTextDocument({
+            content: content,
+            language: 'markdown'
+        });
+
+        await vscode.window.showTextDocument(doc);
+    }
+
+    /**
+     * AI lines per tool / model pair (tool_model_breakdown), largest first, as a percentage of
+     * the AI lines and of all added lines. Empty if no AI lines were attributed to a tool.
+     */
+    private buildBreakdownSection(breakdown: Record<string, number>, totalAdditions: number, heading: string, maxRows?: number): string {
+        const rows = Object.entries(breakdown || {}).filter(([, lines]) => lines > 0).sort((a, b) => b[1] - a[1]);
+        if (rows.length === 0) return '';
+
+        const aiTotal = rows.reduce((sum, [, lines]) => sum + lines, 0);
+        const pct = (n: number, of: number) => of > 0 ? Math.round((n / of) * 100) : 0;
+
+        let content = `\n${heading} AI by Tool / Model\n\n`;
+        content += `| Tool / Model | Lines | % of AI | % of All |\n`;
+        content += `| ------------ | ----- | ------- | -------- |\n`;
+
+        const visibleRows = maxRows ? rows.slice(0, maxRows) : rows;
+        for (const [model, lines] of visibleRows) {
+            content += `| ${model.replace(/\|/g, '\\|')} | ${lines} | ${pct(lines, aiTotal)}% | ${pct(lines, totalAdditions)}% |\n`;
+        }
+        if (rows.length > visibleRows.length) {
+            content += `| *(${rows.length - visibleRows.length} more)* | | | |\n`;
+        }
+        return content + '\n';
+    }
+
+    private buildReportSection(data: RecentCommitsData): string {
         const stats = data.aggregated;
         const total = stats.human_additions + stats.mixed_additions + stats.ai_additions + stats.ai_accepted;
-        const depth = this.commitDepth;
-        const scopeText = depth > 1 ? `Last ${depth} Commits` : `Last Commit`;
 
         const aiPct = total > 0 ? Math.round(((stats.ai_additions + stats.ai_accepted) / total) * 100) : 0;
         const mixedPct = total > 0 ? Math.round((stats.mixed_additions / total) * 100) : 0;
         const humanPct = total > 0 ? Math.round((stats.human_additions / total) * 100) : 0;
 
-        let content = `# Git AI Authorship Report\n\n`;
-        content += `**Scope:** ${scopeText}\n`;
-        content += `**Generated:** ${new Date().toLocaleString()}\n\n`;
-
-        content += `## Summary\n`;
+        let content = `## Summary\n`;
         content += `- **Total Lines Added:** ${total}\n`;
         content += `- **AI Generated:** ${stats.ai_additions + stats.ai_accepted} (${aiPct}%)\n`;
         content += `- **Mixed:** ${stats.mixed_additions} (${mixedPct}%)\n`;
         content += `- **Human:** ${stats.human_additions} (${humanPct}%)\n\n`;
+        content += this.buildBreakdownSection(stats.tool_model_breakdown, total, '##');
+
+        if (data.branchScope) {
+            const scope = data.branchScope;
+            content += `${scope.commitCount} commit(s) on \`${scope.branch}\` since the merge base \`${scope.mergeBase.substring(0, 7)}\` with \`${scope.base}\`.\n\n`;
+            // Unfiltered branch stats are a single range without per-commit rows
+            if (data.commits.length === 0) return content;
+        }
+
+        if (data.filter && data.filter.paths.length > 0) {
+            content += `*Commits touching ${data.filter.paths.join(', ')}; the stats cover each whole commit.*\n\n`;
+        }
 
         content += `## Detailed Commits\n\n`;
-        content += `| No | Commit | Message | Author | AI | Mix | Human | % (A/M/H) |\n`;
-        content += `| -- | ------ | ------- | ------ | -- | --- | ----- | --------- |\n`;
+        content += `| No | Commit | Message | Author | AI | Mix | Human | % (A/M/H) | Tool / Model |\n`;
+        content += `| -- | ------ | ------- | ------ | -- | --- | ----- | --------- | ------------ |\n`;
 
         data.commits.forEach((c, i) => {
             const cTotal = c.human_additions + c.mixed_additions + c.ai_additions + c.ai_accepted;
@@ -355,14 +1095,16 @@ export class CheckpointManager {
 
             // For the report, we don't need &nbsp; or short truncation as strictly
             // But let's keep it readable
-            content += `| ${i + 1} | ${c.shortHash} | ${c.subject} | ${c.author} | ${c.ai_additions + c.ai_accepted} | ${c.mixed_additions} | ${c.human_additions} | ${cAi}/${cMix}/${cHuman} |\n`;
+            // "copilot/gpt-4o: 12, aws-q/claude: 3"
+            const models = Object.entries(c.tool_model_breakdown || {})
+                .filter(([, lines]) => lines > 0)
+                .sort((a, b) => b[1] - a[1])
+                .map(([model, lines]) => `${model}: ${lines}`)
+                .join(', ');
+
+            content += `| ${i + 1} | ${c.shortHash} | ${c.subject} | ${c.author} | ${c.ai_additions + c.ai_accepted} | ${c.mixed_additions} | ${c.human_additions} | ${cAi}/${cMix}/${cHuman} | ${models.replace(/\|/g, '\\|') || '-'} |\n`;
         });
 
-        const doc = await vscode.workspace.openTextDocument({
-            content: content,
-            language: 'markdown'
-        });
-
-        await vscode.window.showTextDocument(doc);
+        return content + '\n';
     }
 }
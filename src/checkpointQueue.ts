@@ -0,0 +1,340 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { GitAiService, AgentInfo, TranscriptMessage } from './gitAiService';
+
+// dirtyFiles: absolute path -> content to checkpoint instead of the file on disk (manual attribution)
+export type CheckpointJob =
+    | { kind: 'human', repoDir: string, files: string[], dirtyFiles?: Record<string, string> }
+    | { kind: 'agent', repoDir: string, files: string[], agent: AgentInfo, messages: TranscriptMessage[], dirtyFiles?: Record<string, string> };
+
+interface QueuedJob {
+    id: string;
+    job: CheckpointJob;
+    attempts: number;
+    enqueuedAt: number;
+    // Earliest time of the next attempt (exponential backoff after failures)
+    notBefore: number;
+}
+
+// Contents of a journal file (older versions wrote only the pending jobs, as a plain array)
+interface Journal {
+    pending: QueuedJob[];
+    // Out of attempts, kept until they're retried or discarded
+    failed: QueuedJob[];
+}
+
+export interface QueueState {
+    pending: number;
+    running: number;
+    failed: number;
+    lastError: string | null;
+}
+
+/**
+ * Runs git-ai checkpoints one at a time per repository (FIFO), with a global concurrency limit
+ * and exponential-backoff retries. Pending and failed jobs are journaled so that a window reload doesn't lose them;
+ * failed jobs stay until they are retried or discarded.
+ *
+ * Jobs only carry file contents for manual attribution (dirtyFiles). All others checkpoint the files as they are on
+ * disk when the job runs, so a replayed or retried job records their current content, not the one of the moment
+ * it was queued.
+ *
+ * Each window (extension host) writes its own journal, 'checkpoint-journal-<pid>.json', in the workspace storage.
+ * On activation only the journals of windows that are gone are replayed; they are claimed by renaming them first,
+ * so two windows starting at once never replay the same jobs.
+ */
+export class CheckpointQueue {
+    private gitAiService: GitAiService;
+    private outputChannel: vscode.OutputChannel;
+    private journalDir: string;
+    private journalPath: string;
+
+    // repoDir -> jobs in FIFO order (head is running or next)
+    private queues: Map<string, QueuedJob[]> = new Map();
+    private runningRepos: Set<string> = new Set();
+    private waiters: Map<string, { resolve: () => void, reject: (err: any) => void }> = new Map();
+    private failedJobs: QueuedJob[] = [];
+    private lastError: string | null = null;
+    private retryTimeout: NodeJS.Timeout | null = null;
+    private disposed: boolean = false;
+
+    private readonly MAX_ATTEMPTS = 5;
+    private readonly BASE_BACKOFF_MS = 1000;
+    private readonly MAX_FAILED_KEPT = 200;
+
+    private _onDidChange = new vscode.EventEmitter<QueueState>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    // Configurable via 'gitAi.checkpointConcurrency'
+    private get concurrency(): number {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return Math.max(1, config.get<number>('checkpointConcurrency', 2));
+    }
+
+    constructor(gitAiService: GitAiService, storageUri: vscode.Uri) {
+        this.gitAiService = gitAiService;
+        this.outputChannel = vscode.window.createOutputChannel("Git AI Checkpoint Queue");
+        this.journalDir = storageUri.fsPath;
+        this.journalPath = path.join(this.journalDir, `checkpoint-journal-${process.pid}.json`);
+
+        this.replayJournal();
+    }
+
+    public enqueue(job: CheckpointJob): Promise<void> {
+        const queued: QueuedJob = {
+            id: crypto.randomBytes(8).toString('hex'),
+            job,
+            attempts: 0,
+            enqueuedAt: Date.now(),
+            notBefore: 0
+        };
+
+        const promise = new Promise<void>((resolve, reject) => {
+            this.waiters.set(queued.id, { resolve, reject });
+        });
+
+        this.push(queued);
+        return promise;
+    }
+
+    public getState(): QueueState {
+        let pending = 0;
+        for (const jobs of this.queues.values()) {
+            pending += jobs.length;
+        }
+        return {
+            pending,
+            running: this.runningRepos.size,
+            failed: this.failedJobs.length,
+            lastError: this.lastError
+        };
+    }
+
+    /**
+     * Re-queues every job that ran out of attempts.
+     */
+    public retryFailed() {
+        const jobs = this.failedJobs;
+        this.failedJobs = [];
+        this.lastError = null;
+        for (const queued of jobs) {
+            this.push({ ...queued, attempts: 0, notBefore: 0 });
+        }
+        this.changed();
+    }
+
+    /**
+     * Drops every job that ran out of attempts.
+     */
+    public discardFailed() {
+        this.outputChannel.appendLine(`[QUEUE] Discarded ${this.failedJobs.length} failed checkpoint(s)`);
+        this.failedJobs = [];
+        this.lastError = null;
+        this.changed();
+    }
+
+    private push(queued: QueuedJob) {
+        const repoQueue = this.queues.get(queued.job.repoDir) || [];
+        repoQueue.push(queued);
+        this.queues.set(queued.job.repoDir, repoQueue);
+
+        this.changed();
+        this.pump();
+    }
+
+    private pump() {
+        if (this.disposed) return;
+
+        const now = Date.now();
+        let nextWakeUp = Infinity;
+
+        for (const [repoDir, jobs] of this.queues) {
+            if (this.runningRepos.size >= this.concurrency) break;
+            if (this.runningRepos.has(repoDir) || jobs.length === 0) continue;
+
+            const head = jobs[0];
+            if (head.notBefore > now) {
+                // Backing off: FIFO means the rest of this repo waits too
+                nextWakeUp = Math.min(nextWakeUp, head.notBefore);
+                continue;
+            }
+
+            this.run(repoDir, head);
+        }
+
+        if (nextWakeUp !== Infinity) {
+            if (this.retryTimeout) clearTimeout(this.retryTimeout);
+            this.retryTimeout = setTimeout(() => {
+                this.retryTimeout = null;
+                this.pump();
+            }, nextWakeUp - now);
+        }
+    }
+
+    private run(repoDir: string, queued: QueuedJob) {
+        this.runningRepos.add(repoDir);
+        queued.attempts++;
+        this.changed();
+
+        this.execute(queued.job)
+            .then(() => {
+                this.finish(repoDir, queued);
+                this.waiters.get(queued.id)?.resolve();
+                this.waiters.delete(queued.id);
+            })
+            .catch(err => {
+                const message = err instanceof Error ? err.message : String(err);
+
+                if (queued.attempts < this.MAX_ATTEMPTS) {
+                    const delay = this.BASE_BACKOFF_MS * Math.pow(2, queued.attempts - 1);
+                    this.outputChannel.appendLine(`[QUEUE] ${queued.job.kind} checkpoint in ${repoDir} failed (attempt ${queued.attempts}/${this.MAX_ATTEMPTS}): ${message}. Retrying in ${delay}ms`);
+                    queued.notBefore = Date.now() + delay;
+                    this.runningRepos.delete(repoDir);
+                    this.changed();
+                    this.pump();
+                    return;
+                }
+
+                this.outputChannel.appendLine(`[QUEUE] ${queued.job.kind} checkpoint in ${repoDir} failed permanently: ${message}`);
+                this.lastError = message;
+                this.failedJobs.push(queued);
+                if (this.failedJobs.length > this.MAX_FAILED_KEPT) {
+                    const dropped = this.failedJobs.shift()!;
+                    this.outputChannel.appendLine(`[QUEUE] More than ${this.MAX_FAILED_KEPT} failed checkpoints, dropping the oldest (${dropped.job.kind} in ${dropped.job.repoDir})`);
+                }
+                this.finish(repoDir, queued);
+                this.waiters.get(queued.id)?.reject(err);
+                this.waiters.delete(queued.id);
+            });
+    }
+
+    private execute(job: CheckpointJob): Promise<void> {
+        if (job.kind === 'human') {
+            return this.gitAiService.checkpointHuman(job.repoDir, job.dirtyFiles);
+        }
+        return this.gitAiService.checkpointAgent(job.repoDir, job.files, job.agent, job.messages, job.dirtyFiles);
+    }
+
+    private finish(repoDir: string, queued: QueuedJob) {
+        const jobs = this.queues.get(repoDir) || [];
+        const index = jobs.indexOf(queued);
+        if (index >= 0) jobs.splice(index, 1);
+        if (jobs.length === 0) this.queues.delete(repoDir);
+
+        this.runningRepos.delete(repoDir);
+        this.changed();
+        this.pump();
+    }
+
+    private changed() {
+        this.writeJournal();
+        this._onDidChange.fire(this.getState());
+    }
+
+    private writeJournal() {
+        const journal: Journal = { pending: [], failed: this.failedJobs };
+        for (const repoJobs of this.queues.values()) {
+            journal.pending.push(...repoJobs);
+        }
+
+        try {
+            if (journal.pending.length === 0 && journal.failed.length === 0) {
+                if (fs.existsSync(this.journalPath)) fs.unlinkSync(this.journalPath);
+                return;
+            }
+            fs.mkdirSync(path.dirname(this.journalPath), { recursive: true });
+            // Write + rename so a crash never leaves a half-written journal
+            const tmpPath = `${this.journalPath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(journal));
+            fs.renameSync(tmpPath, this.journalPath);
+        } catch (err) {
+            console.error("[Git AI] Failed to write checkpoint journal:", err);
+        }
+    }
+
+    private replayJournal() {
+        let names: string[] = [];
+        try {
+            names = fs.readdirSync(this.journalDir);
+        } catch (err) {
+            // No storage yet: nothing to replay
+            return;
+        }
+
+        const pending: QueuedJob[] = [];
+        const failed: QueuedJob[] = [];
+        for (const name of names) {
+            const match = /^checkpoint-journal-(\d+)\.json$/.exec(name);
+            if (!match) continue;
+            // Still running: that window is working on these jobs itself
+            const pid = parseInt(match[1]);
+            if (pid !== process.pid && this.isProcessAlive(pid)) continue;
+
+            // Claim it; if another window renamed it first, it's theirs
+            const journal = path.join(this.journalDir, name);
+            const claimed = `${journal}.${process.pid}.replay`;
+            try {
+                fs.renameSync(journal, claimed);
+            } catch (err) {
+                continue;
+            }
+
+            try {
+                const journal: Journal | QueuedJob[] = JSON.parse(fs.readFileSync(claimed, 'utf8'));
+                if (Array.isArray(journal)) {
+                    pending.push(...journal);
+                } else {
+                    pending.push(...(journal.pending || []));
+                    failed.push(...(journal.failed || []));
+                }
+            } catch (err) {
+                this.outputChannel.appendLine(`[QUEUE] Ignoring unreadable journal ${name}: ${err}`);
+            }
+            try {
+                fs.unlinkSync(claimed);
+            } catch (err) {
+                // Left behind, harmless
+            }
+        }
+
+        const isValid = (j: QueuedJob) => j && j.job && typeof j.job.repoDir === 'string' && fs.existsSync(j.job.repoDir);
+
+        // Failed ones wait for "Retry Failed Checkpoints" again
+        const validFailed = failed.filter(isValid);
+        if (validFailed.length > 0) {
+            this.outputChannel.appendLine(`[QUEUE] Restored ${validFailed.length} failed checkpoint(s) from the previous session`);
+            this.failedJobs.push(...validFailed.slice(-this.MAX_FAILED_KEPT));
+            this.changed();
+        }
+
+        const validPending = pending.filter(isValid);
+        if (validPending.length === 0) return;
+
+        this.outputChannel.appendLine(`[QUEUE] Replaying ${validPending.length} checkpoint(s) from the previous session`);
+        for (const queued of validPending) {
+            // Fresh retry budget, nobody is waiting for these anymore
+            // (push() writes them to this window's journal)
+            this.push({ ...queued, attempts: 0, notBefore: 0 });
+        }
+    }
+
+    private isProcessAlive(pid: number): boolean {
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (err: any) {
+            // EPERM: it exists, it just belongs to someone else
+            return err.code === 'EPERM';
+        }
+    }
+
+    public dispose() {
+        // Keep the journal: whatever is still pending is replayed next time
+        this.disposed = true;
+        if (this.retryTimeout) clearTimeout(this.retryTimeout);
+        this._onDidChange.dispose();
+        this.outputChannel.dispose();
+    }
+}
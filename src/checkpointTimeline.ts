@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckpointManager, CheckpointEvent } from './checkpointManager';
+import { ManualAttribution } from './manualAttribution';
+import { AgentInfo } from './gitAiService';
+
+// Content of one file before and after a checkpoint (null = file didn't exist / couldn't be read)
+interface TimelineFile {
+    path: string;
+    before: string | null;
+    after: string | null;
+}
+
+interface TimelineEntry {
+    id: number;
+    timestamp: number;
+    kind: 'human' | 'agent';
+    agent?: AgentInfo;
+    trigger: string;
+    repoDir: string;
+    // HEAD when the checkpoint was written; once it moves the checkpoint is committed and can't be reclassified
+    head: string | null;
+    files: TimelineFile[];
+    // Label of the original classification if the entry was reclassified
+    reclassifiedFrom?: string;
+}
+
+interface TimelineFileItem {
+    entry: TimelineEntry;
+    index: number;
+}
+
+type TimelineElement = TimelineEntry | TimelineFileItem;
+
+/**
+ * "Checkpoints" view in the Git AI activity-bar container: every checkpoint of this session with its time, files,
+ * author (agent or human) and trigger. Entries can be reclassified before they are committed, and each file's
+ * change can be opened as a diff (served from snapshots under the 'git-ai-checkpoint' scheme).
+ */
+export class CheckpointTimeline implements vscode.TreeDataProvider<TimelineElement>, vscode.TextDocumentContentProvider {
+    public static readonly SCHEME = 'git-ai-checkpoint';
+
+    private checkpointManager: CheckpointManager;
+    private manualAttribution: ManualAttribution;
+    private treeView: vscode.TreeView<TimelineElement>;
+    private disposables: vscode.Disposable[] = [];
+
+    // Newest first
+    private entries: TimelineEntry[] = [];
+    private nextId: number = 1;
+    // file path -> content at its last checkpoint (the "before" of the next one)
+    private lastContents: Map<string, string | null> = new Map();
+
+    private readonly MAX_ENTRIES = 200;
+    // Bigger files are listed without a diff
+    private readonly MAX_SNAPSHOT_BYTES = 1024 * 1024;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<TimelineElement | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(checkpointManager: CheckpointManager, manualAttribution: ManualAttribution) {
+        this.checkpointManager = checkpointManager;
+        this.manualAttribution = manualAttribution;
+
+        this.treeView = vscode.window.createTreeView('gitAi.checkpoints', { treeDataProvider: this });
+        this.disposables.push(this.treeView, this._onDidChangeTreeData);
+        this.disposables.push(vscode.workspace.registerTextDocumentContentProvider(CheckpointTimeline.SCHEME, this));
+        this.disposables.push(this.checkpointManager.onDidCheckpoint(e => this.record(e)));
+
+        this.updateDescription();
+    }
+
+    private async record(event: CheckpointEvent) {
+        // Reclassification updates the entry it came from instead of adding one
+        if (event.trigger === 'reclassify') return;
+
+        // Before the first await: a checkpoint of the same file recorded meanwhile must see this one's "after"
+        // as its "before" (undefined = not seen this session, the HEAD version is looked up below)
+        const previous = event.files.map(filePath => this.lastContents.get(filePath));
+        for (const filePath of event.files) {
+            this.lastContents.set(filePath, event.contents[filePath] ?? null);
+        }
+
+        const head = await this.git(['rev-parse', 'HEAD'], event.repoDir);
+        const files: TimelineFile[] = [];
+        for (let i = 0; i < event.files.length; i++) {
+            const filePath = event.files[i];
+            const before = previous[i] !== undefined
+                ? previous[i]!
+                : await this.git(['show', `HEAD:${path.relative(event.repoDir, filePath).split(path.sep).join('/')}`], event.repoDir);
+            files.push({ path: filePath, before, after: event.contents[filePath] ?? null });
+        }
+
+        this.entries.unshift({
+            id: this.nextId++,
+            timestamp: event.timestamp,
+            kind: event.kind,
+            agent: event.agent,
+            trigger: event.trigger,
+            repoDir: event.repoDir,
+            head: head ? head.trim() : null,
+            files
+        });
+        if (this.entries.length > this.MAX_ENTRIES) {
+            this.entries.pop();
+        }
+
+        this._onDidChangeTreeData.fire(undefined);
+        this.updateDescription();
+    }
+
+    // Current content of a file: the editor buffer if it's open (manual marks and pastes checkpoint the buffer)
+    private async readCurrentContent(filePath: string): Promise<string | null> {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === filePath);
+        if (document) return document.getText();
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (stat.size > this.MAX_SNAPSHOT_BYTES) return null;
+            return await fs.promises.readFile(filePath, 'utf8');
+        } catch (e) {
+            // Deleted
+            return null;
+        }
+    }
+
+    private updateDescription() {
+        const counts = this.checkpointManager.getCheckpointCounts();
+        this.treeView.description = `${counts.ai} AI · ${counts.human} human`;
+    }
+
+    public getTreeItem(element: TimelineElement): vscode.TreeItem {
+        if ('files' in element) {
+            const time = new Date(element.timestamp).toLocaleTimeString();
+            const item = new vscode.TreeItem(`${time}  ${this.authorLabel(element)}`, vscode.TreeItemCollapsibleState.Collapsed);
+            const fileCount = element.files.length === 1 ? path.basename(element.files[0].path) : `${element.files.length} files`;
+            item.description = `${fileCount} · ${element.trigger}`;
+            item.iconPath = new vscode.ThemeIcon(element.kind === 'agent' ? 'robot' : 'person');
+            item.contextValue = 'checkpoint';
+
+            const tooltip = new vscode.MarkdownString();
+            tooltip.appendMarkdown(`**${this.authorLabel(element)}** · ${new Date(element.timestamp).toLocaleString()}\n\n`);
+            tooltip.appendMarkdown(`Trigger: ${element.trigger}\n\n`);
+            if (element.reclassifiedFrom) {
+                tooltip.appendMarkdown(`Reclassified (was: ${element.reclassifiedFrom})\n\n`);
+            }
+            tooltip.appendMarkdown(element.files.map(f => `- ${path.relative(element.repoDir, f.path)}`).join('\n'));
+            item.tooltip = tooltip;
+            return item;
+        }
+
+        const file = element.entry.files[element.index];
+        const item = new vscode.TreeItem(path.basename(file.path), vscode.TreeItemCollapsibleState.None);
+        item.description = path.relative(element.entry.repoDir, path.dirname(file.path));
+        item.resourceUri = vscode.Uri.file(file.path);
+        item.contextValue = 'checkpointFile';
+        item.command = { command: 'gitAi.timeline.openDiff', title: "Open Diff", arguments: [element] };
+        return item;
+    }
+
+    public getChildren(element?: TimelineElement): TimelineElement[] {
+        if (!element) return this.entries;
+        if ('files' in element) {
+            return element.files.map((_, index) => ({ entry: element, index }));
+        }
+        return [];
+    }
+
+    private authorLabel(entry: TimelineEntry): string {
+        const label = entry.kind === 'agent' && entry.agent ? `${entry.agent.agentName} (${entry.agent.model})` : 'Human';
+        return entry.reclassifiedFrom ? `${label} *` : label;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const params = new URLSearchParams(uri.query);
+        const entry = this.entries.find(e => e.id === Number(params.get('entry')));
+        const file = entry?.files[Number(params.get('file'))];
+        if (!file) return '';
+        return (params.get('side') === 'before' ? file.before : file.after) || '';
+    }
+
+    /**
+     * Diff of one file of a checkpoint (asks for the file if a whole checkpoint is given).
+     */
+    public async openDiff(element?: TimelineElement) {
+        const selected = element || this.treeView.selection[0];
+        if (!selected) return;
+
+        let fileItem: TimelineFileItem;
+        if ('files' in selected) {
+            if (selected.files.length === 1) {
+                fileItem = { entry: selected, index: 0 };
+            } else {
+                const choice = await vscode.window.showQuickPick(
+                    selected.files.map((f, index) => ({ label: path.basename(f.path), description: path.relative(selected.repoDir, f.path), index })),
+                    { placeHolder: "Select the file to diff" });
+                if (!choice) return;
+                fileItem = { entry: selected, index: choice.index };
+            }
+        } else {
+            fileItem = selected;
+        }
+
+        const { entry, index } = fileItem;
+        const file = entry.files[index];
+        const uriFor = (side: string) => vscode.Uri.from({
+            scheme: CheckpointTimeline.SCHEME,
+            path: file.path,
+            query: `entry=${entry.id}&file=${index}&side=${side}`
+        });
+        const title = `${path.basename(file.path)} (${this.authorLabel(entry)}, ${new Date(entry.timestamp).toLocaleTimeString()})`;
+        await vscode.commands.executeCommand('vscode.diff', uriFor('before'), uriFor('after'), title);
+    }
+
+    /**
+     * Attributes the changes of a checkpoint to a different author (human or an agent), as long as they're not committed.
+     */
+    public async reclassify(element?: TimelineElement) {
+        const selected = element || this.treeView.selection[0];
+        if (!selected) return;
+        const entry = 'files' in selected ? selected : selected.entry;
+
+        // 1. Only uncommitted checkpoints
+        const head = await this.git(['rev-parse', 'HEAD'], entry.repoDir);
+        if ((head ? head.trim() : null) !== entry.head) {
+            vscode.window.showWarningMessage("Git AI: This checkpoint has already been committed and can't be reclassified.");
+            return;
+        }
+
+        // 2. Only files that haven't changed since (otherwise later edits would be attributed too)
+        const files: TimelineFile[] = [];
+        const changed: string[] = [];
+        for (const file of entry.files) {
+            if (file.after === null) continue;
+            const current = await this.readCurrentContent(file.path);
+            if (current === file.after) {
+                files.push(file);
+            } else {
+                changed.push(path.basename(file.path));
+            }
+        }
+        if (files.length === 0) {
+            vscode.window.showWarningMessage("Git AI: The files of this checkpoint changed since, use 'Mark Selection as ...' instead.");
+            return;
+        }
+
+        // 3. New author
+        const human = { label: "$(person) Human" };
+        const ai = { label: "$(robot) AI Agent..." };
+        const choice = await vscode.window.showQuickPick([human, ai], {
+            placeHolder: `Reclassify checkpoint (currently ${this.authorLabel(entry)})` + (changed.length ? ` · skipping changed files: ${changed.join(', ')}` : '')
+        });
+        if (!choice) return;
+
+        let agent: AgentInfo | null = null;
+        if (choice === ai) {
+            agent = await this.manualAttribution.pickAgent();
+            if (!agent) return;
+        }
+
+        // 4. Checkpoint "before" as human, then "after" as the new author
+        try {
+            for (const file of files) {
+                await this.checkpointManager.reattribute(file.path, file.before || '', file.after!, agent, 'reclassify');
+            }
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Git AI: Failed to reclassify checkpoint: ${err.message}`);
+            return;
+        }
+
+        entry.reclassifiedFrom = entry.reclassifiedFrom || this.authorLabel(entry);
+        this.checkpointManager.moveCheckpointCount(entry.kind, agent ? 'agent' : 'human');
+        entry.kind = agent ? 'agent' : 'human';
+        entry.agent = agent || undefined;
+        this._onDidChangeTreeData.fire(undefined);
+        this.updateDescription();
+    }
+
+    private git(args: string[], cwd: string): Promise<string | null> {
+        return new Promise(resolve => {
+            cp.execFile('git', args, { cwd, maxBuffer: this.MAX_SNAPSHOT_BYTES * 2 }, (err, stdout) => {
+                resolve(err ? null : stdout);
+            });
+        });
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
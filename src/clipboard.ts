@@ -0,0 +1,20 @@
+import * as vscode from 'vscode';
+
+// Line endings and surrounding whitespace differ between the clipboard and the inserted text
+export function normalizeText(text: string): string {
+    return text.replace(/\r\n/g, '\n').trim();
+}
+
+/**
+ * True if `text` is what the clipboard currently holds,
+ * i.e. the insertion it came from was most likely a paste.
+ */
+export async function matchesClipboard(text: string): Promise<boolean> {
+    try {
+        const clipboard = await vscode.env.clipboard.readText();
+        return !!clipboard && normalizeText(clipboard) === normalizeText(text);
+    } catch (err) {
+        console.error("[Git AI] Failed to read clipboard", err);
+        return false;
+    }
+}
@@ -2,16 +2,49 @@
 import * as vscode from 'vscode';
 import { GitAiService } from './gitAiService';
 import { CheckpointManager } from './checkpointManager';
+import { CheckpointQueue } from './checkpointQueue';
+import { RepoResolver } from './repoResolver';
+import { PathFilter } from './pathFilter';
 import { AwsQLogWatcher } from './awsQLogWatcher';
+import { AwsQDetector } from './awsQDetector';
+import { SignalSourceRegistry } from './signalSource';
+import { AgentIpcServer } from './agentIpcServer';
+import { TerminalAgentDetector } from './terminalAgentDetector';
+import { ManualAttribution } from './manualAttribution';
+import { PasteDetector } from './pasteDetector';
+import { CheckpointTimeline } from './checkpointTimeline';
+import { LineAuthorshipCache } from './lineAuthorship';
+import { AuthorshipDecorations } from './authorshipDecorations';
+import { AuthorshipHoverProvider } from './authorshipHover';
+import { AuthorshipCodeLensProvider } from './authorshipCodeLens';
+import { StatsDashboard } from './statsDashboard';
+import { ReportExporter } from './reportExporter';
+import { StatsCache } from './statsCache';
+import { GitAiApi, createApi } from './api';
 
 let checkpointManager: CheckpointManager;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): GitAiApi {
     console.log('Git AI Integration is now active!');
 
+    // Stats of already seen commits (persisted in globalStorage, keyed by commit + attribution note)
+    const statsCache = new StatsCache(context.globalStorageUri);
+    context.subscriptions.push(statsCache);
     // Pass context to GitAiService for access to extensionPath
-    const gitAiService = new GitAiService(context);
-    checkpointManager = new CheckpointManager(gitAiService);
+    const gitAiService = new GitAiService(context, statsCache);
+    // Serialized, persistent checkpoint queue (journal lives in the workspace storage and is replayed here)
+    const checkpointQueue = new CheckpointQueue(gitAiService, context.storageUri || context.globalStorageUri);
+    context.subscriptions.push(vscode.Disposable.from({ dispose: () => checkpointQueue.dispose() }));
+
+    // Maps files to their git repo root (workspace folders may hold several repos, submodules or worktrees)
+    const repoResolver = new RepoResolver();
+    context.subscriptions.push(repoResolver);
+    // Decides which paths never trigger checkpoints ('gitAi.exclude', files.exclude, .gitignore)
+    const pathFilter = new PathFilter(repoResolver);
+    context.subscriptions.push(pathFilter);
+
+    checkpointManager = new CheckpointManager(gitAiService, checkpointQueue, repoResolver, pathFilter);
+    context.subscriptions.push(vscode.Disposable.from({ dispose: () => checkpointManager.dispose() }));
 
     // Initial check: if git-ai shim is not installed, prompt user (Mandatory Setup)
     // Initial check: if git-ai shim is not installed or configured, prompt user (Mandatory Setup)
@@ -97,9 +130,57 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(fileWatcher.onDidDelete(uri => checkpointManager.handleFileChange(uri)));
     context.subscriptions.push(fileWatcher);
 
-    // Initialize AWS Q Log Watcher
-    const logWatcher = new AwsQLogWatcher(checkpointManager);
-    context.subscriptions.push(vscode.Disposable.from({ dispose: () => logWatcher.dispose() }));
+    // AI Signal Sources (enabled/disabled via 'gitAi.signalSources')
+    // To support another assistant, implement SignalSource and register it here.
+    const signalSources = new SignalSourceRegistry(signal => checkpointManager.signalAiActivity(signal));
+    context.subscriptions.push(vscode.Disposable.from({ dispose: () => signalSources.dispose() }));
+
+    // AWS Q Log Watcher
+    signalSources.register('aws-q-log', () => new AwsQLogWatcher(context.logUri));
+    // Heuristic Detector (agents that write no Amazon Q log lines)
+    signalSources.register('heuristic', () => new AwsQDetector());
+    // Local socket for terminal agents, advertised to new terminals as $GIT_AI_AGENT_SOCKET
+    signalSources.register('ipc', () => new AgentIpcServer(context.environmentVariableCollection));
+    // AI CLI agents in the integrated terminal (requires shell integration)
+    signalSources.register('terminal', () => new TerminalAgentDetector(checkpointManager));
+
+    // Mark Selection as AI / Human, Mark Last Change as Human (editor context menu & palette)
+    const manualAttribution = new ManualAttribution(checkpointManager, context.globalState);
+    context.subscriptions.push(manualAttribution);
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.markSelectionAsAi', () => manualAttribution.markSelection(true)));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.markSelectionAsHuman', () => manualAttribution.markSelection(false)));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.markFileAsAi', () => manualAttribution.markFile(true)));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.markFileAsHuman', () => manualAttribution.markFile(false)));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.markLastChangeAsHuman', () => manualAttribution.markLastChangeAsHuman()));
+
+    // Checkpoints view (activity bar): this session's checkpoints, diff & reclassify
+    const checkpointTimeline = new CheckpointTimeline(checkpointManager, manualAttribution);
+    context.subscriptions.push(checkpointTimeline);
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.timeline.openDiff', element => checkpointTimeline.openDiff(element)));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.timeline.reclassify', element => checkpointTimeline.reclassify(element)));
+
+    // Per-line authorship (git-ai blame + unsaved edits), shown as editor decorations
+    const lineAuthorship = new LineAuthorshipCache(gitAiService, repoResolver, checkpointManager);
+    context.subscriptions.push(lineAuthorship);
+    const authorshipDecorations = new AuthorshipDecorations(lineAuthorship);
+    context.subscriptions.push(authorshipDecorations);
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.toggleAuthorshipDecorations', () => authorshipDecorations.toggle()));
+
+    // Agent / model / commit / prompt of AI lines on hover
+    const authorshipHover = new AuthorshipHoverProvider(gitAiService, lineAuthorship);
+    context.subscriptions.push(vscode.languages.registerHoverProvider({ scheme: 'file' }, authorshipHover));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.openConversation', (documentUri: string, promptId: string) => authorshipHover.openConversation(documentUri, promptId)));
+
+    // AI share per function / class
+    const authorshipCodeLens = new AuthorshipCodeLensProvider(gitAiService, lineAuthorship);
+    context.subscriptions.push(authorshipCodeLens);
+    context.subscriptions.push(vscode.languages.registerCodeLensProvider({ scheme: 'file' }, authorshipCodeLens));
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.showSymbolAuthorship', (documentUri: string, startLine: number, endLine: number, name: string) =>
+        authorshipCodeLens.showSymbolAuthorship(documentUri, startLine, endLine, name)));
+
+    // Pastes from outside of VS Code ('gitAi.pasteAttribution.*')
+    const pasteDetector = new PasteDetector(checkpointManager);
+    context.subscriptions.push(pasteDetector);
 
     // Debug Command
     context.subscriptions.push(vscode.commands.registerCommand('gitAi.testSignal', () => {
@@ -108,7 +189,7 @@ export function activate(context: vscode.ExtensionContext) {
     }));
 
     context.subscriptions.push(vscode.commands.registerCommand('gitAi.showDebugInfo', () => {
-        const info = logWatcher.getDebugInfo();
+        const info = `${signalSources.getDebugInfo()}\n${pasteDetector.getDebugInfo()}\n${gitAiService.getDebugInfo()}`;
         vscode.window.showInformationMessage(info);
     }));
 
@@ -116,18 +197,41 @@ export function activate(context: vscode.ExtensionContext) {
         checkpointManager.openFullStats();
     }));
 
+    const reportExporter = new ReportExporter(checkpointManager);
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.exportReport', () => reportExporter.exportReport()));
+
+    // Charts of recent commits, updated live
+    const statsDashboard = new StatsDashboard(gitAiService, checkpointManager);
+    context.subscriptions.push(statsDashboard);
+    context.subscriptions.push(vscode.commands.registerCommand('gitAi.openDashboard', () => statsDashboard.open()));
+
     // Status Bar Menu
     context.subscriptions.push(vscode.commands.registerCommand('gitAi.statusBarMenu', async () => {
         const fullStats = { label: "$(markdown) Open Full Stats Report...", description: "View full table in new editor" };
+        const dashboard = { label: "$(graph) Open Dashboard", description: "Charts over time, per author, model and directory" };
+        const exportReport = { label: "$(export) Export Report...", description: "CSV, JSON or HTML" };
         const setDepth = { label: "$(gear) Configure Commit Depth", description: "Change number of commits in stats" };
+        const setScope = { label: "$(git-branch) Configure Stats Scope", description: "Recent commits or current branch vs its base" };
+        const setFilter = { label: "$(filter) Configure Stats Filters", description: "Author, period and paths" };
         const debugInfo = { label: "$(bug) Show Debug Info", description: "Internal logs and watcher state" };
+        const retryFailed = { label: "$(refresh) Retry Failed Checkpoints", description: `${checkpointQueue.getState().failed} failed` };
+        const discardFailed = { label: "$(trash) Discard Failed Checkpoints", description: "Their edits stay unattributed" };
+
+        const items = [fullStats, dashboard, exportReport, setDepth, setScope, setFilter, debugInfo];
+        if (checkpointQueue.getState().failed > 0) {
+            items.push(retryFailed, discardFailed);
+        }
 
-        const selection = await vscode.window.showQuickPick([fullStats, setDepth, debugInfo], {
+        const selection = await vscode.window.showQuickPick(items, {
             placeHolder: "Git AI Options"
         });
 
         if (selection === fullStats) {
             checkpointManager.openFullStats();
+        } else if (selection === dashboard) {
+            statsDashboard.open();
+        } else if (selection === exportReport) {
+            reportExporter.exportReport();
         } else if (selection === setDepth) {
             const config = vscode.workspace.getConfiguration('gitAi');
             const currentDepth = config.get<number>('statusBarCommitDepth', 1);
@@ -146,11 +250,43 @@ export function activate(context: vscode.ExtensionContext) {
                 await config.update('statusBarCommitDepth', parseInt(depthInput), vscode.ConfigurationTarget.Global);
                 checkpointManager.updateLastCommitStats();
             }
+        } else if (selection === setScope) {
+            const config = vscode.workspace.getConfiguration('gitAi');
+            const scope = config.get<string>('statsScope', 'recentCommits');
+            const baseBranch = config.get<string>('baseBranch', '');
+
+            const recent = { label: "Recent Commits", description: scope === 'recentCommits' ? "(current)" : "", detail: "Last N commits (Configure Commit Depth)" };
+            const branch = { label: "Current Branch", description: scope === 'branch' ? "(current)" : "", detail: `All commits since the merge base with ${baseBranch || "the upstream's base branch (auto-detected)"}` };
+            const setBase = { label: "$(edit) Set Base Branch...", description: baseBranch || "auto-detect", detail: "Branch the current branch is compared against" };
+
+            const choice = await vscode.window.showQuickPick([recent, branch, setBase], { placeHolder: "Stats Scope" });
+            if (choice === recent) {
+                await config.update('statsScope', 'recentCommits', vscode.ConfigurationTarget.Global);
+            } else if (choice === branch) {
+                await config.update('statsScope', 'branch', vscode.ConfigurationTarget.Global);
+            } else if (choice === setBase) {
+                const baseInput = await vscode.window.showInputBox({
+                    prompt: "Base branch for branch stats (e.g. origin/main). Leave empty to auto-detect from the upstream.",
+                    value: baseBranch
+                });
+                if (baseInput !== undefined) {
+                    await config.update('baseBranch', baseInput.trim(), vscode.ConfigurationTarget.Global);
+                }
+            }
+        } else if (selection === setFilter) {
+            checkpointManager.configureStatsFilter();
         } else if (selection === debugInfo) {
-            const info = logWatcher.getDebugInfo();
+            const info = `${signalSources.getDebugInfo()}\n${pasteDetector.getDebugInfo()}\n${gitAiService.getDebugInfo()}`;
             vscode.window.showInformationMessage(info);
+        } else if (selection === retryFailed) {
+            checkpointQueue.retryFailed();
+        } else if (selection === discardFailed) {
+            checkpointQueue.discardFailed();
         }
     }));
+
+    // Public API for other extensions (see api.ts)
+    return createApi(checkpointManager);
 }
 
 export function deactivate() { }
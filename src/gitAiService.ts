@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as cp from 'child_process';
+import { StatsCache } from './statsCache';
 
 export interface CommitStats {
     human_additions: number;
@@ -21,20 +22,117 @@ export interface DetailedCommitStats extends CommitStats {
     hash: string;
     shortHash: string;
     author: string;
+    // Author date, ISO 8601
+    date: string;
     subject: string;
 }
 
+/**
+ * Identifies the agent an 'agent-v1' checkpoint is attributed to.
+ */
+export interface AgentInfo {
+    agentName: string;
+    model: string;
+    conversationId?: string;
+}
+
+/**
+ * Transcript entries of an 'agent-v1' checkpoint.
+ */
+export type TranscriptMessage =
+    | { type: 'user', text: string, timestamp?: string }
+    | { type: 'assistant', text: string, timestamp?: string }
+    | { type: 'tool_use', name: string, input: any, timestamp?: string };
+
+/**
+ * Branch scope of stats: everything committed on the current branch since it forked from the base.
+ */
+export interface BranchScope {
+    branch: string;
+    base: string;
+    mergeBase: string;
+    commitCount: number;
+}
+
+/**
+ * Restricts the commits stats are computed for ('gitAi.statsFilter.*'). Empty values don't filter.
+ */
+export interface StatsFilter {
+    // 'me' = the repo's git user, anything else is a name or email (or part of one) matched literally
+    // by `git log --fixed-strings --author`
+    author: string;
+    // Anything `git log --since/--until` understands: "7 days ago", "2025-01-06", ...
+    since: string;
+    until: string;
+    // Pathspecs: only commits touching these paths
+    paths: string[];
+}
+
+export function isStatsFilterActive(filter: StatsFilter | undefined): filter is StatsFilter {
+    return !!filter && !!(filter.author || filter.since || filter.until || filter.paths.length > 0);
+}
+
+/**
+ * "author: me · since 7 days ago · paths: src/", empty if nothing is filtered.
+ */
+export function describeStatsFilter(filter: StatsFilter | undefined): string {
+    if (!isStatsFilterActive(filter)) return '';
+    const parts: string[] = [];
+    if (filter.author) parts.push(`author: ${filter.author}`);
+    if (filter.since) parts.push(`since ${filter.since}`);
+    if (filter.until) parts.push(`until ${filter.until}`);
+    if (filter.paths.length > 0) parts.push(`paths: ${filter.paths.join(', ')}`);
+    return parts.join(' · ');
+}
+
 export interface RecentCommitsData {
     aggregated: CommitStats;
+    // Empty for unfiltered branch stats, git-ai computes those as a single range
     commits: DetailedCommitStats[];
+    branchScope?: BranchScope;
+    // Filter the commits were selected with
+    filter?: StatsFilter;
+}
+
+/**
+ * A prompt (agent session) that wrote lines, as listed by `git-ai blame --json`.
+ */
+export interface BlamePrompt {
+    agent_id?: { tool?: string; id?: string; model?: string };
+    human_author?: string;
+    messages?: { type: string; text?: string; timestamp?: string }[];
+}
+
+/**
+ * Per-line attribution of one file from `git-ai blame --json`.
+ * `lines` maps 1-based line numbers or ranges ("12", "12-20") to the id of the prompt that wrote them;
+ * lines that aren't listed were written by a human.
+ */
+export interface BlameData {
+    lines: Record<string, string>;
+    prompts: Record<string, BlamePrompt>;
+}
+
+/**
+ * Commit that last touched a line, from `git blame`.
+ */
+export interface LineCommit {
+    hash: string;
+    author: string;
+    summary: string;
 }
 
 export class GitAiService {
     private outputChannel: vscode.OutputChannel;
     private context: vscode.ExtensionContext;
+    private statsCache: StatsCache;
+
+    // `git-ai stats` processes running at once while fetching uncached commits
+    private readonly MAX_CONCURRENT_STATS = 4;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, statsCache: StatsCache) {
         this.context = context;
+        this.statsCache = statsCache;
         this.outputChannel = vscode.window.createOutputChannel("Git AI Integration");
     }
 
@@ -462,47 +560,72 @@ export class GitAiService {
         }
     }
 
-    public checkpointHuman(filePath?: string): Promise<void> {
-        let cwd: string | undefined;
-        if (filePath) {
-            cwd = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+    /**
+     * `dirtyFiles` (absolute path -> content) makes git-ai checkpoint that content instead of what's on disk.
+     */
+    public checkpointHuman(repoDir: string, dirtyFiles?: Record<string, string>): Promise<void> {
+        if (!dirtyFiles) {
+            return this.runCommand(['checkpoint'], repoDir);
         }
-        return this.runCommand(['checkpoint'], cwd);
+
+        const payload = JSON.stringify({
+            type: "human",
+            repo_working_dir: repoDir,
+            will_edit_filepaths: Object.keys(dirtyFiles).map(f => this.toRepoRelative(repoDir, f)).filter(f => f !== null),
+            dirty_files: this.toRelativeDirtyFiles(repoDir, dirtyFiles)
+        });
+
+        return this.runCommand(['checkpoint', 'agent-v1', '--hook-input', payload], repoDir);
     }
 
-    public checkpointAwsQ(repoDir: string, filePath?: string) {
+    public checkpointAgent(repoDir: string, filePaths: string[], agent: AgentInfo, messages: TranscriptMessage[] = [], dirtyFiles?: Record<string, string>) {
         const timestamp = Date.now();
 
-        let editedFilePathsJson = "[]";
-        if (filePath && filePath.startsWith(repoDir)) {
-            // Calculate relative path 
-            // repoDir: /a/b, filePath: /a/b/c/d.txt -> c/d.txt
-            let relPath = filePath.substring(repoDir.length);
-            if (relPath.startsWith(path.sep)) {
-                relPath = relPath.substring(1);
-            }
-            // Normalize slashes for JSON
-            relPath = relPath.replace(/\\/g, '/');
-            editedFilePathsJson = JSON.stringify([relPath]);
+        const editedFilePaths: string[] = [];
+        for (const filePath of filePaths) {
+            const relPath = this.toRepoRelative(repoDir, filePath);
+            if (relPath !== null) editedFilePaths.push(relPath);
         }
 
         const payload = JSON.stringify({
             type: "ai_agent",
             repo_working_dir: repoDir,
-            edited_filepaths: JSON.parse(editedFilePathsJson), // Use object not stringified JSON inside JSON
-            agent_name: "aws-q",
-            model: "aws-q", // Using generic model name
-            conversation_id: `vscode-${timestamp}`,
+            edited_filepaths: editedFilePaths,
+            agent_name: agent.agentName,
+            model: agent.model,
+            conversation_id: agent.conversationId || `vscode-${timestamp}`,
             transcript: {
-                messages: []
-            }
+                messages
+            },
+            ...(dirtyFiles ? { dirty_files: this.toRelativeDirtyFiles(repoDir, dirtyFiles) } : {})
         });
 
         // The CLI expects the payload as a string argument
         return this.runCommand(['checkpoint', 'agent-v1', '--hook-input', payload], repoDir);
     }
 
-    private runCommand(args: string[], cwd?: string): Promise<void> {
+    // repoDir: /a/b, filePath: /a/b/c/d.txt -> c/d.txt (null if the file is outside the repo)
+    private toRepoRelative(repoDir: string, filePath: string): string | null {
+        if (!filePath.startsWith(repoDir)) return null;
+
+        let relPath = filePath.substring(repoDir.length);
+        if (relPath.startsWith(path.sep)) {
+            relPath = relPath.substring(1);
+        }
+        // Normalize slashes for JSON
+        return relPath.replace(/\\/g, '/');
+    }
+
+    private toRelativeDirtyFiles(repoDir: string, dirtyFiles: Record<string, string>): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [filePath, content] of Object.entries(dirtyFiles)) {
+            const relPath = this.toRepoRelative(repoDir, filePath);
+            if (relPath !== null) result[relPath] = content;
+        }
+        return result;
+    }
+
+    private runCommand(args: string[], cwd: string): Promise<void> {
         return new Promise((resolve, reject) => {
             const executable = this.gitAiPath;
 
@@ -511,9 +634,9 @@ export class GitAiService {
                 return reject(new Error(`Binary not found at ${executable}`));
             }
 
-            const workingDir = cwd || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workingDir) {
-                return reject(new Error("No working directory found"));
+            const workingDir = cwd;
+            if (!workingDir || !fs.existsSync(workingDir)) {
+                return reject(new Error(`Working directory not found: ${workingDir}`));
             }
 
             const commandStr = `${executable} ${args.join(' ')}`;
@@ -545,7 +668,7 @@ export class GitAiService {
         });
     }
 
-    public async getCommitStats(rev: string = 'HEAD'): Promise<CommitStats | null> {
+    public async getCommitStats(repoDir: string, rev: string = 'HEAD'): Promise<CommitStats | null> {
         try {
             // Run git-ai stats <rev> --json
             // We use a custom runCommand wrapper or just spawn it similarly to other methods
@@ -556,8 +679,7 @@ export class GitAiService {
             // Let's create a small helper or just use child_process directly here for simplicity 
             // since we need stdout, not just side effects.
 
-            const workingDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workingDir) return null;
+            const workingDir = repoDir;
 
             return new Promise((resolve) => {
                 // this.outputChannel.appendLine(`[DEBUG] Running stats: ${executable} ${args.join(' ')}`);
@@ -604,20 +726,162 @@ export class GitAiService {
         }
     }
 
-    public async getRecentStats(depth: number): Promise<RecentCommitsData | null> {
+    /**
+     * AI attribution of every line of a file (committed lines and uncommitted checkpoints).
+     */
+    public getBlame(repoDir: string, filePath: string): Promise<BlameData | null> {
+        const relPath = this.toRepoRelative(repoDir, filePath);
+        if (relPath === null) return Promise.resolve(null);
+
+        return new Promise((resolve) => {
+            const child = cp.spawn(this.gitAiPath, ['blame', '--json', relPath], { cwd: repoDir });
+            let stdout = '';
+            let stderr = '';
+
+            child.stdout.on('data', (data) => {
+                stdout += data.toString();
+            });
+
+            child.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            child.on('close', (code) => {
+                if (code !== 0 || !stdout.trim()) {
+                    // Untracked / binary files end up here too, so keep it quiet
+                    this.outputChannel.appendLine(`[DEBUG] Blame failed for ${relPath}. Code: ${code}. Stderr: ${stderr.trim()}`);
+                    resolve(null);
+                    return;
+                }
+                try {
+                    const parsed = JSON.parse(stdout);
+                    resolve({ lines: parsed.lines || {}, prompts: parsed.prompts || {} });
+                } catch (e) {
+                    this.outputChannel.appendLine(`[ERROR] Blame JSON Parse Failed: ${e}`);
+                    resolve(null);
+                }
+            });
+
+            child.on('error', (err) => {
+                this.outputChannel.appendLine(`[FATAL] Blame spawn error: ${err}`);
+                resolve(null);
+            });
+        });
+    }
+
+    /**
+     * Last commit that touched each line of [startLine, endLine] (1-based, inclusive), from `git blame --porcelain`.
+     * Lines that aren't committed yet map to null.
+     */
+    public getLineCommits(repoDir: string, filePath: string, startLine: number, endLine: number): Promise<Map<number, LineCommit | null>> {
+        const result = new Map<number, LineCommit | null>();
+        const relPath = this.toRepoRelative(repoDir, filePath);
+        if (relPath === null) return Promise.resolve(result);
+
+        return new Promise((resolve) => {
+            cp.execFile('git', ['blame', '--porcelain', '-L', `${startLine},${endLine}`, '--', relPath], { cwd: repoDir, maxBuffer: 50 * 1024 * 1024 }, (err, stdout) => {
+                if (err) {
+                    resolve(result);
+                    return;
+                }
+                // Porcelain: "<hash> <orig line> <final line> [<count>]", then the commit headers (only the
+                // first time a commit appears), then the line content prefixed by a tab
+                const commits = new Map<string, LineCommit>();
+                let current: LineCommit | null = null;
+                let finalLine = 0;
+                for (const line of stdout.split('\n')) {
+                    const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(line);
+                    if (header) {
+                        const hash = header[1];
+                        finalLine = parseInt(header[2]);
+                        if (!commits.has(hash)) {
+                            commits.set(hash, { hash, author: '', summary: '' });
+                        }
+                        current = commits.get(hash)!;
+                    } else if (current && line.startsWith('author ')) {
+                        current.author = line.substring('author '.length);
+                    } else if (current && line.startsWith('summary ')) {
+                        current.summary = line.substring('summary '.length);
+                    } else if (current && line.startsWith('\t')) {
+                        // All zeros = uncommitted change
+                        result.set(finalLine, /^0+$/.test(current.hash) ? null : current);
+                    }
+                }
+                resolve(result);
+            });
+        });
+    }
+
+    public async getLineCommit(repoDir: string, filePath: string, line: number): Promise<LineCommit | null> {
+        const commits = await this.getLineCommits(repoDir, filePath, line, line);
+        return commits.get(line) || null;
+    }
+
+    /**
+     * Lines added per file (repo-relative) by each of the given commits, from a single `git show --numstat`.
+     * Binary files are left out.
+     */
+    public getCommitFiles(repoDir: string, hashes: string[]): Promise<Map<string, Record<string, number>>> {
+        const result = new Map<string, Record<string, number>>();
+        if (hashes.length === 0) return Promise.resolve(result);
+
+        return new Promise((resolve) => {
+            cp.execFile('git', ['show', '--numstat', '--format=@@%H', ...hashes], { cwd: repoDir, maxBuffer: 50 * 1024 * 1024 }, (err, stdout) => {
+                if (err) {
+                    this.outputChannel.appendLine(`[ERROR] git show --numstat failed: ${err.message}`);
+                    resolve(result);
+                    return;
+                }
+                let files: Record<string, number> | null = null;
+                for (const line of stdout.split('\n')) {
+                    if (line.startsWith('@@')) {
+                        files = {};
+                        result.set(line.substring(2).trim(), files);
+                        continue;
+                    }
+                    // "<added>\t<deleted>\t<path>", binary files have "-" counts
+                    const match = /^(\d+)\t\d+\t(.+)$/.exec(line);
+                    if (files && match) {
+                        files[match[2]] = parseInt(match[1]);
+                    }
+                }
+                resolve(result);
+            });
+        });
+    }
+
+    /**
+     * Stats of the last `depth` commits of HEAD (of the last `depth` commits matching the filter, if given).
+     */
+    public async getRecentStats(repoDir: string, depth: number, filter?: StatsFilter): Promise<RecentCommitsData | null> {
         if (depth < 1) return null;
         // Even for depth=1, we want the DetailedCommitStats format now for the tooltip
+        return this.getLogStats(repoDir, ['-n', String(depth), 'HEAD'], filter);
+    }
 
-        const workingDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workingDir) return null;
+    /**
+     * Per-commit stats (and their sum) of the commits `git log <revArgs>` lists, narrowed down by the filter.
+     * With an active filter, no matching commits gives empty stats rather than null.
+     */
+    private async getLogStats(repoDir: string, revArgs: string[], filter?: StatsFilter): Promise<RecentCommitsData | null> {
+        const workingDir = repoDir;
+        const filtered = isStatsFilterActive(filter);
 
-        // 1. Get list of last N commits with metadata
-        // Format: Hash|||ShortHash|||AuthorName|||Subject
+        // 1. Get list of commits with metadata
+        // Format: Hash|||ShortHash|||AuthorName|||AuthorDate|||Subject
         let commitLines: string[] = [];
         try {
+            const args = ['log', '--pretty=format:%H|||%h|||%an|||%aI|||%s', ...revArgs];
+            if (filtered) {
+                const filterArgs = await this.filterArgs(workingDir, filter);
+                if (!filterArgs) {
+                    return { aggregated: this.emptyStats(), commits: [], filter };
+                }
+                args.push(...filterArgs);
+            }
             const stdout = await new Promise<string>((resolve, reject) => {
                 // Use a delimiter that is unlikely to appear in commit messages
-                cp.exec(`git log -n ${depth} --pretty=format:"%H|||%h|||%an|||%s" HEAD`, { cwd: workingDir }, (err, out) => {
+                cp.execFile('git', args, { cwd: workingDir, maxBuffer: 10 * 1024 * 1024 }, (err, out) => {
                     if (err) reject(err);
                     else resolve(out);
                 });
@@ -629,15 +893,25 @@ export class GitAiService {
             return null;
         }
 
-        if (commitLines.length === 0) return null;
+        if (commitLines.length === 0) {
+            return filtered ? { aggregated: this.emptyStats(), commits: [], filter } : null;
+        }
 
-        // 2. Fetch stats for each commit in parallel
-        const results = await Promise.all(commitLines.map(async (line) => {
+        // 2. Fetch stats for each commit: cached ones directly, the others a few at a time
+        const notesVersions = await this.getNotesVersions(workingDir);
+        const results = await this.mapWithConcurrency(commitLines, this.MAX_CONCURRENT_STATS, async (line) => {
             const parts = line.split('|||');
-            if (parts.length < 4) return null; // Parse error
-
-            const [hash, shortHash, author, subject] = parts;
-            const stats = await this.getCommitStats(hash);
+            if (parts.length < 5) return null; // Parse error
+
+            const [hash, shortHash, author, date] = parts;
+            // The subject itself may contain the delimiter
+            const subject = parts.slice(4).join('|||');
+            const notesVersion = notesVersions.get(hash) || null;
+            let stats: CommitStats | null | undefined = this.statsCache.get(hash, notesVersion);
+            if (!stats) {
+                stats = await this.getCommitStats(workingDir, hash);
+                if (stats) this.statsCache.set(hash, notesVersion, stats);
+            }
 
             if (!stats) return null;
 
@@ -646,26 +920,16 @@ export class GitAiService {
                 hash,
                 shortHash,
                 author,
+                date,
                 subject
             } as DetailedCommitStats;
-        }));
+        });
 
         const validCommits = results.filter((c): c is DetailedCommitStats => c !== null);
-        if (validCommits.length === 0) return null;
+        if (validCommits.length === 0 && !filtered) return null;
 
         // 3. Aggregate
-        const aggregated: CommitStats = {
-            human_additions: 0,
-            mixed_additions: 0,
-            ai_additions: 0,
-            ai_accepted: 0,
-            total_ai_additions: 0,
-            total_ai_deletions: 0,
-            time_waiting_for_ai: 0,
-            git_diff_deleted_lines: 0,
-            git_diff_added_lines: 0,
-            tool_model_breakdown: {}
-        };
+        const aggregated = this.emptyStats();
 
         for (const s of validCommits) {
             aggregated.human_additions += s.human_additions;
@@ -686,7 +950,152 @@ export class GitAiService {
 
         return {
             aggregated,
-            commits: validCommits
+            commits: validCommits,
+            filter: filtered ? filter : undefined
         };
     }
+
+    // `git log` options for a filter (options first, pathspecs last)
+    // Null if the filter can't match any commit ('me' without a configured git user)
+    private async filterArgs(repoDir: string, filter: StatsFilter): Promise<string[] | null> {
+        const args: string[] = [];
+        // --author is a regex, names and emails are meant literally (any part of them matches)
+        if (filter.author === 'me') {
+            const me = (await this.git(['config', 'user.email'], repoDir))?.trim() || (await this.git(['config', 'user.name'], repoDir))?.trim();
+            if (!me) {
+                this.outputChannel.appendLine(`[WARN] Author filter 'me': no user.email or user.name configured in ${repoDir}`);
+                return null;
+            }
+            args.push('--fixed-strings', `--author=${me}`);
+        } else if (filter.author) {
+            args.push('--fixed-strings', `--author=${filter.author}`);
+        }
+        if (filter.since) args.push(`--since=${filter.since}`);
+        if (filter.until) args.push(`--until=${filter.until}`);
+        if (filter.paths.length > 0) args.push('--', ...filter.paths);
+        return args;
+    }
+
+    /**
+     * Stats of `merge-base(HEAD, base)..HEAD` from a single git-ai range stats call.
+     * Without a base branch it's detected from the upstream (see detectBaseBranch).
+     * A range can't be filtered by author / date / path: with an active filter the matching commits are
+     * fetched one by one instead (most of them come from the stats cache).
+     */
+    public async getBranchStats(repoDir: string, baseBranch?: string, filter?: StatsFilter): Promise<RecentCommitsData | null> {
+        const base = baseBranch || await this.detectBaseBranch(repoDir);
+        if (!base) {
+            this.outputChannel.appendLine(`[WARN] No base branch found for ${repoDir}, set 'gitAi.baseBranch'.`);
+            return null;
+        }
+
+        const mergeBase = (await this.git(['merge-base', 'HEAD', base], repoDir))?.trim();
+        if (!mergeBase) {
+            this.outputChannel.appendLine(`[ERROR] No merge base between HEAD and ${base} in ${repoDir}`);
+            return null;
+        }
+        const branch = (await this.git(['rev-parse', '--abbrev-ref', 'HEAD'], repoDir))?.trim() || 'HEAD';
+        const commitCount = parseInt((await this.git(['rev-list', '--count', `${mergeBase}..HEAD`], repoDir)) || '0') || 0;
+        const branchScope: BranchScope = { branch, base, mergeBase, commitCount };
+
+        if (isStatsFilterActive(filter)) {
+            const data = await this.getLogStats(repoDir, [`${mergeBase}..HEAD`], filter);
+            return data ? { ...data, branchScope: { ...branchScope, commitCount: data.commits.length } } : null;
+        }
+
+        // Nothing committed on the branch yet
+        if (commitCount === 0) {
+            return { aggregated: this.emptyStats(), commits: [], branchScope };
+        }
+
+        const stats = await this.getCommitStats(repoDir, `${mergeBase}..HEAD`);
+        if (!stats) return null;
+        return {
+            aggregated: { ...this.emptyStats(), ...stats, tool_model_breakdown: stats.tool_model_breakdown || {} },
+            commits: [],
+            branchScope
+        };
+    }
+
+    /**
+     * Base branch of the current branch:
+     * 1. its upstream, if that's a different branch (e.g. "feature" tracking "origin/develop")
+     * 2. the default branch of its remote (refs/remotes/<remote>/HEAD)
+     * 3. the first existing of <remote>/main, <remote>/master, main, master
+     */
+    public async detectBaseBranch(repoDir: string): Promise<string | null> {
+        const branch = (await this.git(['symbolic-ref', '--short', '-q', 'HEAD'], repoDir))?.trim();
+
+        const upstream = (await this.git(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'], repoDir))?.trim();
+        if (upstream && branch && upstream.substring(upstream.indexOf('/') + 1) !== branch) {
+            return upstream;
+        }
+
+        const remote = (branch && (await this.git(['config', `branch.${branch}.remote`], repoDir))?.trim()) || 'origin';
+        const remoteHead = (await this.git(['symbolic-ref', '--short', '-q', `refs/remotes/${remote}/HEAD`], repoDir))?.trim();
+        if (remoteHead) return remoteHead;
+
+        for (const candidate of [`${remote}/main`, `${remote}/master`, 'main', 'master']) {
+            if (candidate === branch) continue;
+            if (await this.git(['rev-parse', '--verify', '-q', candidate], repoDir)) return candidate;
+        }
+        return null;
+    }
+
+    /**
+     * Commit hash -> blob id of its git-ai note (refs/notes/ai), from a single `git notes list`.
+     * The blob id changes whenever the note is rewritten, which makes it the version of the commit's stats.
+     */
+    private async getNotesVersions(repoDir: string): Promise<Map<string, string>> {
+        const versions = new Map<string, string>();
+        // Fails when the repo has no notes yet
+        const stdout = await this.git(['notes', '--ref=ai', 'list'], repoDir);
+        for (const line of (stdout || '').split('\n')) {
+            const [noteBlob, commit] = line.trim().split(' ');
+            if (noteBlob && commit) versions.set(commit, noteBlob);
+        }
+        return versions;
+    }
+
+    // Like Promise.all(items.map(fn)), with at most `limit` calls running at once
+    private async mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+        const results: R[] = new Array(items.length);
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await fn(items[index]);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+        return results;
+    }
+
+    public getDebugInfo(): string {
+        return this.statsCache.getDebugInfo();
+    }
+
+    private emptyStats(): CommitStats {
+        return {
+            human_additions: 0,
+            mixed_additions: 0,
+            ai_additions: 0,
+            ai_accepted: 0,
+            total_ai_additions: 0,
+            total_ai_deletions: 0,
+            time_waiting_for_ai: 0,
+            git_diff_deleted_lines: 0,
+            git_diff_added_lines: 0,
+            tool_model_breakdown: {}
+        };
+    }
+
+    // stdout of a git command, null if it failed
+    private git(args: string[], cwd: string): Promise<string | null> {
+        return new Promise(resolve => {
+            cp.execFile('git', args, { cwd }, (err, stdout) => {
+                resolve(err ? null : stdout);
+            });
+        });
+    }
 }
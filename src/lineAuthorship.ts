@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { GitAiService, BlameData, BlamePrompt } from './gitAiService';
+import { RepoResolver } from './repoResolver';
+import { CheckpointManager } from './checkpointManager';
+
+export type LineAuthorKind = 'ai' | 'mixed' | 'human';
+
+export interface LineAuthor {
+    kind: LineAuthorKind;
+    // Prompt that wrote the line (ai / mixed lines), key into FileAuthorship.prompts
+    promptId?: string;
+}
+
+export interface FileAuthorship {
+    repoDir: string;
+    // Index = 0-based line of the document (including unsaved edits)
+    lines: LineAuthor[];
+    prompts: Record<string, BlamePrompt>;
+}
+
+const HUMAN: LineAuthor = { kind: 'human' };
+
+// Edit made while a document was loading (version = document version after the edit)
+interface QueuedEdit {
+    version: number;
+    changes: readonly vscode.TextDocumentContentChangeEvent[];
+}
+
+/**
+ * Who wrote each line of an open document, shared by the gutter decorations, hovers and code lenses.
+ *
+ * The base comes from `git-ai blame --json` (committed lines plus the checkpoints of the working tree).
+ * Edits in the editor are applied incrementally: new lines are human, edited AI lines become mixed.
+ * A document is reloaded after a checkpoint that touched it and after HEAD or the notes of its repo changed.
+ */
+export class LineAuthorshipCache {
+    private gitAiService: GitAiService;
+    private repoResolver: RepoResolver;
+    private disposables: vscode.Disposable[] = [];
+
+    // document uri -> authorship (null = not attributable: untracked, outside a repo, ...)
+    private entries: Map<string, FileAuthorship | null> = new Map();
+    private loading: Map<string, Promise<FileAuthorship | null>> = new Map();
+    // Edits made while a document is loading, replayed onto the result. One queue per running load:
+    // a load that was invalidated meanwhile still hands an up-to-date result to whoever awaits it.
+    private queuedChanges: Map<string, Set<QueuedEdit[]>> = new Map();
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(gitAiService: GitAiService, repoResolver: RepoResolver, checkpointManager: CheckpointManager) {
+        this.gitAiService = gitAiService;
+        this.repoResolver = repoResolver;
+
+        this.disposables.push(this._onDidChange);
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(e => this.applyChanges(e)));
+        this.disposables.push(vscode.workspace.onDidCloseTextDocument(doc => this.invalidate(doc.uri, false)));
+
+        this.disposables.push(checkpointManager.onDidCheckpoint(e => {
+            for (const filePath of e.files) {
+                this.invalidate(vscode.Uri.file(filePath), true);
+            }
+        }));
+        // Commit, checkout, rebase, fetched notes, ...
+        this.disposables.push(checkpointManager.onDidChangeHistory(repoDir => this.invalidateRepo(repoDir)));
+    }
+
+    /**
+     * Authorship of the document, loading it if necessary.
+     */
+    public get(document: vscode.TextDocument): Promise<FileAuthorship | null> {
+        if (document.uri.scheme !== 'file') return Promise.resolve(null);
+
+        const key = document.uri.toString();
+        if (this.entries.has(key)) return Promise.resolve(this.entries.get(key)!);
+
+        let promise = this.loading.get(key);
+        if (!promise) {
+            const queue: QueuedEdit[] = [];
+            const queues = this.queuedChanges.get(key) || new Set();
+            queues.add(queue);
+            this.queuedChanges.set(key, queues);
+
+            const started: Promise<FileAuthorship | null> = this.load(document).then(result => {
+                queues.delete(queue);
+                if (queues.size === 0 && this.queuedChanges.get(key) === queues) {
+                    this.queuedChanges.delete(key);
+                }
+
+                // The buffer was read at `result.version`, edits after it still have to be applied
+                const authorship = result ? result.authorship : null;
+                if (result) {
+                    for (const edit of queue) {
+                        if (edit.version > result.version) {
+                            this.applyContentChanges(result.authorship, edit.changes);
+                        }
+                    }
+                }
+
+                // Invalidated while loading: a newer load is responsible for the cache now
+                if (this.loading.get(key) !== started) return authorship;
+                this.loading.delete(key);
+                this.entries.set(key, authorship);
+                return authorship;
+            });
+            promise = started;
+            this.loading.set(key, promise);
+        }
+        return promise;
+    }
+
+    /**
+     * Authorship if it's already loaded (no blame is run).
+     */
+    public peek(document: vscode.TextDocument): FileAuthorship | null {
+        return this.entries.get(document.uri.toString()) || null;
+    }
+
+    /**
+     * Drops the documents of a repo (all documents if undefined). Documents that aren't attributable have no
+     * repo and are dropped as well: a commit may have added them.
+     */
+    public invalidateRepo(repoDir?: string) {
+        const uris: string[] = [];
+        for (const [key, authorship] of this.entries) {
+            if (!repoDir || !authorship || authorship.repoDir === repoDir) {
+                uris.push(key);
+            }
+        }
+        for (const key of uris) {
+            this.entries.delete(key);
+        }
+        // Which repo a running load belongs to isn't known yet
+        this.loading.clear();
+        for (const key of uris) {
+            this._onDidChange.fire(vscode.Uri.parse(key));
+        }
+    }
+
+    private invalidate(uri: vscode.Uri, notify: boolean) {
+        const key = uri.toString();
+        const known = this.entries.delete(key) || this.loading.delete(key);
+        if (known && notify) {
+            this._onDidChange.fire(uri);
+        }
+    }
+
+    // Also returns the document version the buffer was read at
+    private async load(document: vscode.TextDocument): Promise<{ authorship: FileAuthorship, version: number } | null> {
+        const filePath = document.uri.fsPath;
+        const repoDir = await this.repoResolver.resolve(filePath);
+        if (!repoDir) return null;
+
+        const blame = await this.gitAiService.getBlame(repoDir, filePath);
+        if (!blame) return null;
+
+        let diskText: string;
+        try {
+            diskText = await fs.promises.readFile(filePath, 'utf8');
+        } catch (e) {
+            return null;
+        }
+
+        // Blame describes the file on disk, the editor may hold unsaved edits
+        const diskLines = diskText.split(/\r?\n/);
+        const bufferLines = document.getText().split(/\r?\n/);
+        return {
+            authorship: {
+                repoDir,
+                lines: this.align(diskLines, bufferLines, this.expand(blame, diskLines.length)),
+                prompts: blame.prompts
+            },
+            version: document.version
+        };
+    }
+
+    private expand(blame: BlameData, lineCount: number): LineAuthor[] {
+        const lines: LineAuthor[] = new Array(lineCount).fill(HUMAN);
+        for (const [range, promptId] of Object.entries(blame.lines)) {
+            const match = /^(\d+)(?:-(\d+))?$/.exec(range.trim());
+            if (!match) continue;
+            const start = parseInt(match[1]) - 1;
+            const end = match[2] ? parseInt(match[2]) - 1 : start;
+            for (let i = Math.max(0, start); i <= end && i < lineCount; i++) {
+                lines[i] = { kind: 'ai', promptId };
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Maps line authors of `from` onto `to`: the common head and tail keep their authors,
+     * the differing middle is human (or mixed where it replaced AI lines).
+     */
+    private align(from: string[], to: string[], authors: LineAuthor[]): LineAuthor[] {
+        let head = 0;
+        while (head < from.length && head < to.length && from[head] === to[head]) head++;
+        let tail = 0;
+        while (tail < from.length - head && tail < to.length - head && from[from.length - 1 - tail] === to[to.length - 1 - tail]) tail++;
+
+        const middle: LineAuthor[] = [];
+        for (let i = 0; i < to.length - head - tail; i++) {
+            const replaced = i < from.length - head - tail ? authors[head + i] : HUMAN;
+            middle.push(replaced.kind === 'human' ? HUMAN : { kind: 'mixed', promptId: replaced.promptId });
+        }
+
+        return [...authors.slice(0, head), ...middle, ...authors.slice(from.length - tail)];
+    }
+
+    private applyChanges(event: vscode.TextDocumentChangeEvent) {
+        if (event.contentChanges.length === 0) return;
+        const key = event.document.uri.toString();
+
+        // Still loading: the changes are applied once the load finished
+        for (const queue of this.queuedChanges.get(key) || []) {
+            queue.push({ version: event.document.version, changes: event.contentChanges });
+        }
+
+        const authorship = this.entries.get(key);
+        if (!authorship) return;
+        this.applyContentChanges(authorship, event.contentChanges);
+        this._onDidChange.fire(event.document.uri);
+    }
+
+    private applyContentChanges(authorship: FileAuthorship, changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+        // Changes come in reverse document order, so each one can be applied to the lines as they are
+        for (const change of changes) {
+            const start = change.range.start.line;
+            const end = change.range.end.line;
+            const newLineCount = change.text.split('\n').length;
+            const first = authorship.lines[start] || HUMAN;
+
+            let replacement: LineAuthor[];
+            if (change.range.isEmpty && change.range.start.character === 0 && change.text.endsWith('\n')) {
+                // Whole lines inserted above an existing one, which itself is untouched
+                replacement = [...new Array(newLineCount - 1).fill(HUMAN), first];
+            } else {
+                const edited: LineAuthor = first.kind === 'human' ? HUMAN : { kind: 'mixed', promptId: first.promptId };
+                replacement = [edited, ...new Array(newLineCount - 1).fill(HUMAN)];
+            }
+            authorship.lines.splice(start, end - start + 1, ...replacement);
+        }
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
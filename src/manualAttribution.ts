@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { CheckpointManager } from './checkpointManager';
+import { AgentInfo, TranscriptMessage } from './gitAiService';
+
+// Offsets of the text inserted by the last change of a document
+interface LastChange {
+    start: number;
+    end: number;
+    version: number;
+}
+
+/**
+ * Commands for attributing code the watcher can't classify (e.g. pasted from a browser chat):
+ * "Mark Selection as AI-generated", "Mark Selection as Human-written", "Mark File as AI-generated",
+ * "Mark File as Human-written" and "Mark Last Change as Human".
+ * There is no "mark as mixed": git-ai derives mixed lines from human edits of AI lines, no checkpoint sets it.
+ *
+ * git-ai attributes lines by diffing consecutive checkpoints, so marking a range means checkpointing the
+ * document without the range (as human) and then with it (as the chosen author). See CheckpointManager.reattribute.
+ */
+export class ManualAttribution {
+    private checkpointManager: CheckpointManager;
+    private memento: vscode.Memento;
+    private disposables: vscode.Disposable[] = [];
+
+    // document uri -> last change
+    private lastChanges: Map<string, LastChange> = new Map();
+
+    private static readonly LAST_AGENT_KEY = 'gitAi.manualAttribution.lastAgent';
+    private static readonly KNOWN_AGENTS = ['chatgpt', 'claude', 'gemini', 'copilot', 'aws-q', 'cursor'];
+
+    constructor(checkpointManager: CheckpointManager, memento: vscode.Memento) {
+        this.checkpointManager = checkpointManager;
+        this.memento = memento;
+
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(e => this.trackChange(e)));
+        this.disposables.push(vscode.workspace.onDidCloseTextDocument(doc => this.lastChanges.delete(doc.uri.toString())));
+    }
+
+    private trackChange(event: vscode.TextDocumentChangeEvent) {
+        if (event.document.uri.scheme !== 'file' || event.contentChanges.length === 0) return;
+
+        // Multi-cursor edits arrive as several changes: remember the span covering all of them
+        let start = Infinity;
+        let end = -Infinity;
+        for (const change of event.contentChanges) {
+            start = Math.min(start, change.rangeOffset);
+            end = Math.max(end, change.rangeOffset + change.text.length);
+        }
+        this.lastChanges.set(event.document.uri.toString(), { start, end, version: event.document.version });
+    }
+
+    public async markSelection(asAi: boolean) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            vscode.window.showWarningMessage("Git AI: Open a file to mark code.");
+            return;
+        }
+
+        const ranges = editor.selections.filter(s => !s.isEmpty);
+        if (ranges.length === 0) {
+            vscode.window.showWarningMessage("Git AI: Select the code to mark first.");
+            return;
+        }
+
+        let agent: AgentInfo | null = null;
+        if (asAi) {
+            agent = await this.pickAgent();
+            if (!agent) return;
+        }
+
+        const document = editor.document;
+        await this.mark(document, ranges.map(r => ({ start: document.offsetAt(r.start), end: document.offsetAt(r.end) })), agent);
+    }
+
+    public async markFile(asAi: boolean) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            vscode.window.showWarningMessage("Git AI: Open a file to mark it.");
+            return;
+        }
+
+        const document = editor.document;
+        if (document.getText().length === 0) {
+            vscode.window.showWarningMessage("Git AI: The file is empty, there is nothing to mark.");
+            return;
+        }
+
+        let agent: AgentInfo | null = null;
+        if (asAi) {
+            agent = await this.pickAgent();
+            if (!agent) return;
+        }
+
+        await this.mark(document, [{ start: 0, end: document.getText().length }], agent);
+    }
+
+    public async markLastChangeAsHuman() {
+        const editor = vscode.window.activeTextEditor;
+        const lastChange = editor ? this.lastChanges.get(editor.document.uri.toString()) : undefined;
+        if (!editor || !lastChange) {
+            vscode.window.showWarningMessage("Git AI: No recent change in the active editor.");
+            return;
+        }
+        if (lastChange.end <= lastChange.start) {
+            vscode.window.showWarningMessage("Git AI: The last change only deleted text, there is nothing to mark.");
+            return;
+        }
+        if (lastChange.version !== editor.document.version) {
+            // Undo/redo or an edit we didn't see: the offsets are no longer reliable
+            vscode.window.showWarningMessage("Git AI: The document changed since, select the code and use 'Mark Selection as Human-written' instead.");
+            return;
+        }
+
+        await this.mark(editor.document, [lastChange], null);
+    }
+
+    private async mark(document: vscode.TextDocument, ranges: { start: number, end: number }[], agent: AgentInfo | null) {
+        const contentAfter = document.getText();
+
+        // Cut the ranges out back to front so earlier offsets stay valid
+        let contentBefore = contentAfter;
+        for (const range of [...ranges].sort((a, b) => b.start - a.start)) {
+            contentBefore = contentBefore.substring(0, range.start) + contentBefore.substring(range.end);
+        }
+
+        const messages: TranscriptMessage[] = agent ? [{
+            type: 'tool_use',
+            name: 'manual_attribution',
+            input: {
+                path: document.uri.fsPath,
+                ranges: ranges.map(r => ({ startLine: document.positionAt(r.start).line + 1, endLine: document.positionAt(r.end).line + 1 }))
+            },
+            timestamp: new Date().toISOString()
+        }] : [];
+
+        try {
+            await this.checkpointManager.reattribute(document.uri.fsPath, contentBefore, contentAfter, agent, 'manual', messages);
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Git AI: Failed to mark code: ${err.message}`);
+        }
+    }
+
+    public async pickAgent(): Promise<AgentInfo | null> {
+        const last = this.memento.get<AgentInfo>(ManualAttribution.LAST_AGENT_KEY);
+
+        const other = { label: "$(edit) Other...", agentName: '' };
+        const names = [...new Set([...(last ? [last.agentName] : []), ...ManualAttribution.KNOWN_AGENTS])];
+        const items = [...names.map(name => ({ label: name, agentName: name })), other];
+
+        const choice = await vscode.window.showQuickPick(items, { placeHolder: "Which AI generated this code?" });
+        if (!choice) return null;
+
+        let agentName = choice.agentName;
+        if (choice === other) {
+            agentName = (await vscode.window.showInputBox({
+                prompt: "Agent name as recorded by git-ai",
+                validateInput: val => val.trim() ? null : "Please enter an agent name"
+            }))?.trim() || '';
+            if (!agentName) return null;
+        }
+
+        const model = await vscode.window.showInputBox({
+            prompt: `Model used with ${agentName}`,
+            value: last && last.agentName === agentName ? last.model : 'unknown',
+            validateInput: val => val.trim() ? null : "Please enter a model (or 'unknown')"
+        });
+        if (!model) return null;
+
+        const agent: AgentInfo = { agentName, model: model.trim() };
+        await this.memento.update(ManualAttribution.LAST_AGENT_KEY, agent);
+        return agent;
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { CheckpointManager } from './checkpointManager';
+import { AgentInfo, TranscriptMessage } from './gitAiService';
+import { matchesClipboard, normalizeText } from './clipboard';
+
+/**
+ * Records pastes from outside of VS Code (e.g. chat output copied from a browser) as an "external paste".
+ * Depending on 'gitAi.pasteAttribution.mode' the pasted lines are attributed to:
+ * - "ai": the agent 'external-paste'
+ * - "custom": the agent/model from 'gitAi.pasteAttribution.agent' / 'gitAi.pasteAttribution.model'
+ * - "human": nobody in particular, they go through the normal human checkpoint
+ *
+ * Text copied inside VS Code (moving code around) is not an external paste: we remember recent selections
+ * and skip pastes that match one of them.
+ */
+export class PasteDetector {
+    private checkpointManager: CheckpointManager;
+    private outputChannel: vscode.OutputChannel;
+    private disposables: vscode.Disposable[] = [];
+
+    // Texts recently selected in an editor (and possibly copied from there), newest last
+    private recentSelections: string[] = [];
+    private readonly MAX_RECENT_SELECTIONS = 20;
+    private readonly MAX_SELECTION_CHARS = 100000;
+    // document uri -> its current selections (offset + text), so a paste over a selection knows what it replaced
+    private currentSelections: Map<string, { offset: number, text: string }[]> = new Map();
+
+    private pasteCount: number = 0;
+
+    private static readonly EXTERNAL_PASTE_AGENT: AgentInfo = { agentName: 'external-paste', model: 'unknown' };
+
+    private get mode(): 'ai' | 'custom' | 'human' {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<'ai' | 'custom' | 'human'>('pasteAttribution.mode', 'ai');
+    }
+
+    // Configurable via 'gitAi.pasteAttribution.minChars'
+    private get minChars(): number {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<number>('pasteAttribution.minChars', 40);
+    }
+
+    constructor(checkpointManager: CheckpointManager) {
+        this.checkpointManager = checkpointManager;
+        this.outputChannel = vscode.window.createOutputChannel("Git AI Paste Detection");
+
+        this.disposables.push(vscode.window.onDidChangeTextEditorSelection(e => this.rememberSelection(e)));
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(e => this.checkPaste(e)));
+        this.disposables.push(vscode.workspace.onDidCloseTextDocument(doc => this.currentSelections.delete(doc.uri.toString())));
+    }
+
+    private rememberSelection(event: vscode.TextEditorSelectionChangeEvent) {
+        const document = event.textEditor.document;
+        const current: { offset: number, text: string }[] = [];
+        for (const selection of event.selections) {
+            if (selection.isEmpty) continue;
+            const text = document.getText(selection);
+            if (text.length <= this.MAX_SELECTION_CHARS) {
+                current.push({ offset: document.offsetAt(selection.start), text });
+            }
+            if (text.length < this.minChars || text.length > this.MAX_SELECTION_CHARS) continue;
+
+            // Selections grow while dragging: replace the previous one if this extends it
+            const last = this.recentSelections[this.recentSelections.length - 1];
+            if (last !== undefined && (text.includes(last) || last.includes(text))) {
+                this.recentSelections.pop();
+            }
+            this.recentSelections.push(text);
+            if (this.recentSelections.length > this.MAX_RECENT_SELECTIONS) {
+                this.recentSelections.shift();
+            }
+        }
+        this.currentSelections.set(document.uri.toString(), current);
+    }
+
+    private async checkPaste(event: vscode.TextDocumentChangeEvent) {
+        if (event.document.uri.scheme !== 'file' || event.contentChanges.length !== 1) return;
+        if (event.reason === vscode.TextDocumentChangeReason.Undo || event.reason === vscode.TextDocumentChangeReason.Redo) return;
+
+        const mode = this.mode;
+        if (mode === 'human') return;
+
+        const change = event.contentChanges[0];
+        if (change.text.trim().length < this.minChars) return;
+
+        // Captured now: the document may change while we read the clipboard
+        const document = event.document;
+        const contentAfter = document.getText();
+
+        // A paste over a selection replaced it: "before" has to contain the replaced text again
+        // (looked up now, the selection is updated once the paste is done; null = unknown)
+        let replaced: string | null = '';
+        if (change.rangeLength > 0) {
+            const selection = (this.currentSelections.get(document.uri.toString()) || [])
+                .find(s => s.offset === change.rangeOffset && s.text.length === change.rangeLength);
+            replaced = selection ? selection.text : null;
+        }
+
+        if (!await matchesClipboard(change.text)) return;
+        const pasted = normalizeText(change.text);
+        if (this.recentSelections.some(s => normalizeText(s) === pasted)) {
+            // Copied from an editor: moving code around, not an external paste
+            return;
+        }
+        if (replaced === null) {
+            this.outputChannel.appendLine(`[PASTE] Skipping paste into ${document.uri.fsPath}: the text it replaced is unknown`);
+            return;
+        }
+
+        const agent = mode === 'custom' ? this.customAgent() : PasteDetector.EXTERNAL_PASTE_AGENT;
+        const contentBefore = contentAfter.substring(0, change.rangeOffset) + replaced + contentAfter.substring(change.rangeOffset + change.text.length);
+        const startLine = change.range.start.line + 1;
+        const endLine = startLine + change.text.split('\n').length - 1;
+
+        const messages: TranscriptMessage[] = [{
+            type: 'tool_use',
+            name: 'external_paste',
+            input: { path: document.uri.fsPath, startLine, endLine },
+            timestamp: new Date().toISOString()
+        }];
+
+        this.pasteCount++;
+        this.outputChannel.appendLine(`[PASTE] ${endLine - startLine + 1} line(s) pasted into ${document.uri.fsPath}, attributed to ${agent.agentName} (${agent.model})`);
+
+        try {
+            await this.checkpointManager.reattribute(document.uri.fsPath, contentBefore, contentAfter, agent, 'paste', messages);
+        } catch (err: any) {
+            this.outputChannel.appendLine(`[ERROR] Failed to record paste: ${err.message}`);
+        }
+    }
+
+    private customAgent(): AgentInfo {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return {
+            agentName: config.get<string>('pasteAttribution.agent', '').trim() || PasteDetector.EXTERNAL_PASTE_AGENT.agentName,
+            model: config.get<string>('pasteAttribution.model', '').trim() || PasteDetector.EXTERNAL_PASTE_AGENT.model
+        };
+    }
+
+    public getDebugInfo(): string {
+        return `Paste Detection: mode=${this.mode}, external pastes=${this.pasteCount}`;
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.outputChannel.dispose();
+    }
+}
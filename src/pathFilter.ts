@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import { RepoResolver } from './repoResolver';
+
+/**
+ * Converts a glob ('**', '*', '?', '{a,b}', '[abc]') into a RegExp matching forward-slash paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let re = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        switch (c) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    // '**/' matches any number of directories (including none)
+                    if (glob[i + 2] === '/') {
+                        re += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        re += '.*';
+                        i += 1;
+                    }
+                } else {
+                    re += '[^/]*';
+                }
+                break;
+            case '?':
+                re += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                re += '(?:';
+                break;
+            case '}':
+                inGroup = false;
+                re += ')';
+                break;
+            case ',':
+                re += inGroup ? '|' : ',';
+                break;
+            case '[': {
+                const end = glob.indexOf(']', i + 1);
+                if (end < 0) {
+                    re += '\\[';
+                } else {
+                    re += '[' + glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                    i = end;
+                }
+                break;
+            }
+            default:
+                re += c.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${re}$`);
+}
+
+/**
+ * Decides which file changes are worth a checkpoint at all.
+ * A path is excluded if it is inside .git / .git-ai (our own writes), matches 'gitAi.exclude' or 'files.exclude',
+ * or is ignored by git (.gitignore, .git/info/exclude, core.excludesFile) according to `git check-ignore`.
+ */
+export class PathFilter {
+    private repoResolver: RepoResolver;
+    private disposables: vscode.Disposable[] = [];
+
+    // Compiled 'gitAi.exclude' / 'files.exclude' patterns per workspace folder ('' = no folder)
+    private patternCache: Map<string, RegExp[]> = new Map();
+    // file path -> ignored by git
+    private gitIgnoreCache: Map<string, Promise<boolean>> = new Map();
+    private readonly MAX_CACHED_PATHS = 5000;
+
+    // Paths waiting for `git check-ignore`, per repo: a build writing hundreds of files runs one git process
+    // per repo instead of one per file (repo root -> repo-relative path -> callers waiting for the answer)
+    private pendingIgnoreChecks: Map<string, Map<string, ((ignored: boolean) => void)[]>> = new Map();
+    private runningIgnoreChecks: Set<string> = new Set();
+    private ignoreCheckTimeouts: Map<string, NodeJS.Timeout> = new Map();
+    private readonly IGNORE_BATCH_DELAY_MS = 50;
+
+    constructor(repoResolver: RepoResolver) {
+        this.repoResolver = repoResolver;
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('gitAi.exclude') || e.affectsConfiguration('files.exclude')) {
+                this.patternCache.clear();
+            }
+        }));
+
+        // Ignore rules changed: everything we asked git so far may be stale
+        const ignoreWatcher = vscode.workspace.createFileSystemWatcher('**/{.gitignore,.git/info/exclude}');
+        this.disposables.push(ignoreWatcher);
+        this.disposables.push(ignoreWatcher.onDidChange(() => this.gitIgnoreCache.clear()));
+        this.disposables.push(ignoreWatcher.onDidCreate(() => this.gitIgnoreCache.clear()));
+        this.disposables.push(ignoreWatcher.onDidDelete(() => this.gitIgnoreCache.clear()));
+    }
+
+    public async isExcluded(filePath: string): Promise<boolean> {
+        // 1. Anti-Loop: never react to git's or git-ai's own writes
+        const segments = filePath.split(/[\\/]/);
+        if (segments.includes('.git') || segments.includes('.git-ai')) {
+            return true;
+        }
+
+        // 2. Configured globs
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        const relativePath = folder
+            ? path.relative(folder.uri.fsPath, filePath).split(path.sep).join('/')
+            : filePath.split(path.sep).join('/');
+
+        // A pattern matching a directory ('**/dist') excludes everything below it as well
+        const parts = relativePath.split('/');
+        const candidates = parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+        const patterns = this.getPatterns(folder);
+        if (candidates.some(candidate => patterns.some(pattern => pattern.test(candidate)))) {
+            return true;
+        }
+
+        // 3. Git ignore rules of the repo the file belongs to
+        return this.isGitIgnored(filePath);
+    }
+
+    private getPatterns(folder: vscode.WorkspaceFolder | undefined): RegExp[] {
+        const key = folder ? folder.uri.toString() : '';
+        let patterns = this.patternCache.get(key);
+        if (patterns) return patterns;
+
+        const globs: string[] = [...vscode.workspace.getConfiguration('gitAi', folder).get<string[]>('exclude', [])];
+
+        // files.exclude values are either booleans or { when: ... } clauses; only plain 'true' entries apply here
+        const filesExclude = vscode.workspace.getConfiguration('files', folder).get<Record<string, unknown>>('exclude', {});
+        for (const [glob, enabled] of Object.entries(filesExclude)) {
+            if (enabled === true) globs.push(glob);
+        }
+
+        // Like .gitignore, a pattern without a slash ('*.log') matches at any depth
+        patterns = globs
+            .map(g => g.replace(/^\.\//, ''))
+            .map(g => globToRegExp(g.includes('/') ? g : `**/${g}`));
+        this.patternCache.set(key, patterns);
+        return patterns;
+    }
+
+    private async isGitIgnored(filePath: string): Promise<boolean> {
+        let result = this.gitIgnoreCache.get(filePath);
+        if (result) return result;
+
+        if (this.gitIgnoreCache.size >= this.MAX_CACHED_PATHS) {
+            this.gitIgnoreCache.clear();
+        }
+
+        result = this.repoResolver.resolve(filePath).then(repoRoot => {
+            if (!repoRoot) return false;
+            const relPath = path.relative(repoRoot, filePath).split(path.sep).join('/');
+            return new Promise<boolean>(resolve => {
+                let batch = this.pendingIgnoreChecks.get(repoRoot);
+                if (!batch) {
+                    batch = new Map();
+                    this.pendingIgnoreChecks.set(repoRoot, batch);
+                }
+                batch.set(relPath, [...(batch.get(relPath) || []), resolve]);
+                this.scheduleIgnoreCheck(repoRoot);
+            });
+        });
+        this.gitIgnoreCache.set(filePath, result);
+        return result;
+    }
+
+    private scheduleIgnoreCheck(repoRoot: string) {
+        if (this.ignoreCheckTimeouts.has(repoRoot) || this.runningIgnoreChecks.has(repoRoot)) return;
+        this.ignoreCheckTimeouts.set(repoRoot, setTimeout(() => {
+            this.ignoreCheckTimeouts.delete(repoRoot);
+            this.runIgnoreCheck(repoRoot);
+        }, this.IGNORE_BATCH_DELAY_MS));
+    }
+
+    /**
+     * One `git check-ignore --stdin` for every path queued for the repo; it prints the ignored ones.
+     * Paths queued meanwhile go into the next run.
+     */
+    private runIgnoreCheck(repoRoot: string) {
+        const batch = this.pendingIgnoreChecks.get(repoRoot);
+        this.pendingIgnoreChecks.delete(repoRoot);
+        if (!batch || batch.size === 0) return;
+        this.runningIgnoreChecks.add(repoRoot);
+
+        let finished = false;
+        const finish = (ignored: Set<string>) => {
+            // 'error' and 'close' can both fire
+            if (finished) return;
+            finished = true;
+            for (const [relPath, resolvers] of batch) {
+                resolvers.forEach(resolve => resolve(ignored.has(relPath)));
+            }
+            this.runningIgnoreChecks.delete(repoRoot);
+            if (this.pendingIgnoreChecks.has(repoRoot)) {
+                this.scheduleIgnoreCheck(repoRoot);
+            }
+        };
+
+        const child = cp.spawn('git', ['check-ignore', '--stdin', '-z'], { cwd: repoRoot });
+        let stdout = '';
+        child.stdout.on('data', data => {
+            stdout += data.toString();
+        });
+        // Exit code 0 = some ignored, 1 = none ignored, anything else = error (treat as not ignored)
+        child.on('close', code => {
+            finish(code === 0 ? new Set(stdout.split('\0').filter(p => p.length > 0)) : new Set());
+        });
+        child.on('error', () => finish(new Set()));
+        child.stdin.on('error', () => { /* reported through 'close' */ });
+        child.stdin.end([...batch.keys()].join('\0') + '\0');
+    }
+
+    public dispose() {
+        for (const timeout of this.ignoreCheckTimeouts.values()) {
+            clearTimeout(timeout);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
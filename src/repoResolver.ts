@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Maps files to the root of the git repository they belong to.
+ * A workspace folder is not necessarily a repo root: it may contain several repos, submodules,
+ * or be a linked worktree. Results are cached per directory.
+ */
+export class RepoResolver {
+    // directory -> repo root (null = not inside a repo)
+    private cache: Map<string, Promise<string | null>> = new Map();
+    private knownRepos: Set<string> = new Set();
+    private disposables: vscode.Disposable[] = [];
+
+    // Nested repos below a workspace folder are searched this many levels deep
+    private readonly DISCOVERY_DEPTH = 2;
+    private static readonly SKIP_DIRS = new Set(['node_modules', '.git', '.git-ai', 'out', 'dist', 'build']);
+
+    constructor() {
+        // A repo may appear (git init / clone) or vanish at any time
+        const dotGitWatcher = vscode.workspace.createFileSystemWatcher('**/.git');
+        this.disposables.push(dotGitWatcher);
+        this.disposables.push(dotGitWatcher.onDidCreate(() => this.invalidate()));
+        this.disposables.push(dotGitWatcher.onDidDelete(() => this.invalidate()));
+        this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate()));
+    }
+
+    public invalidate() {
+        this.cache.clear();
+        this.knownRepos.clear();
+    }
+
+    /**
+     * Repo root of a file or directory (the file itself may already be deleted).
+     */
+    public async resolve(filePath: string): Promise<string | null> {
+        let dir = filePath;
+        try {
+            if (!fs.statSync(filePath).isDirectory()) {
+                dir = path.dirname(filePath);
+            }
+        } catch (e) {
+            dir = path.dirname(filePath);
+        }
+
+        // Deleted directories: walk up to the first one that still exists
+        while (!fs.existsSync(dir) && path.dirname(dir) !== dir) {
+            dir = path.dirname(dir);
+        }
+
+        let result = this.cache.get(dir);
+        if (!result) {
+            result = this.runRevParse(dir);
+            this.cache.set(dir, result);
+        }
+
+        const root = await result;
+        if (root) this.knownRepos.add(root);
+        return root;
+    }
+
+    /**
+     * All repos in a workspace folder: the repo containing the folder (if any) plus nested ones.
+     */
+    public async discoverRepos(folderPath: string): Promise<string[]> {
+        const roots = new Set<string>();
+
+        const own = await this.resolve(folderPath);
+        if (own) roots.add(own);
+
+        const candidates: string[] = [];
+        this.collectNestedRepoDirs(folderPath, 0, candidates);
+        for (const dir of candidates) {
+            const root = await this.resolve(dir);
+            if (root) roots.add(root);
+        }
+
+        return [...roots];
+    }
+
+    public getKnownRepos(): string[] {
+        return [...this.knownRepos];
+    }
+
+    private collectNestedRepoDirs(dir: string, depth: number, results: string[]) {
+        if (depth >= this.DISCOVERY_DEPTH) return;
+
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch (e) {
+            return;
+        }
+
+        for (const entry of entries) {
+            if (!entry.isDirectory() || RepoResolver.SKIP_DIRS.has(entry.name)) continue;
+
+            const child = path.join(dir, entry.name);
+            // '.git' is a directory for regular repos and a file for submodules / linked worktrees
+            if (fs.existsSync(path.join(child, '.git'))) {
+                results.push(child);
+            }
+            this.collectNestedRepoDirs(child, depth + 1, results);
+        }
+    }
+
+    private runRevParse(dir: string): Promise<string | null> {
+        return new Promise((resolve) => {
+            // --show-cdup (relative path up to the root) instead of --show-toplevel keeps symlinked
+            // paths intact, so the root stays a prefix of the file paths VS Code gives us.
+            cp.execFile('git', ['rev-parse', '--show-cdup'], { cwd: dir }, (err, stdout) => {
+                if (err) {
+                    resolve(null);
+                    return;
+                }
+                resolve(path.resolve(dir, stdout.trim()));
+            });
+        });
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CheckpointManager } from './checkpointManager';
+import { CommitStats, RecentCommitsData, describeStatsFilter } from './gitAiService';
+
+/**
+ * Version of the exported report layout (see "Report Export" in the README).
+ * Bump it whenever a field is renamed, removed or changes meaning; adding fields doesn't need a bump.
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+type ReportFormat = 'csv' | 'json' | 'html';
+
+// Same names as git-ai's stats output, copied field by field so the report doesn't change with the CLI
+interface ReportStats {
+    human_additions: number;
+    mixed_additions: number;
+    ai_additions: number;
+    ai_accepted: number;
+    total_ai_additions: number;
+    total_ai_deletions: number;
+    time_waiting_for_ai: number;
+    git_diff_added_lines: number;
+    git_diff_deleted_lines: number;
+    tool_model_breakdown: Record<string, number>;
+}
+
+interface ReportCommit extends ReportStats {
+    hash: string;
+    short_hash: string;
+    author: string;
+    date: string;
+    subject: string;
+}
+
+type ReportScope =
+    | { type: 'recentCommits', commit_count: number }
+    | { type: 'branch', branch: string, base: string, merge_base: string, commit_count: number };
+
+// Only the filters that are set
+interface ReportFilter {
+    author?: string;
+    since?: string;
+    until?: string;
+    paths?: string[];
+}
+
+interface ReportRepository {
+    name: string;
+    path: string;
+    scope: ReportScope;
+    filter: ReportFilter | null;
+    summary: ReportStats;
+    commits: ReportCommit[];
+}
+
+interface Report {
+    schema_version: number;
+    generated_at: string;
+    repositories: ReportRepository[];
+}
+
+const CSV_COLUMNS = [
+    'schema_version', 'repository', 'scope', 'row_type', 'hash', 'short_hash', 'author', 'date', 'subject',
+    'human_additions', 'mixed_additions', 'ai_additions', 'ai_accepted', 'total_ai_additions', 'total_ai_deletions',
+    'time_waiting_for_ai', 'git_diff_added_lines', 'git_diff_deleted_lines', 'tool_model_breakdown'
+];
+
+/**
+ * "Git AI: Export Report": writes the stats of the current scope (status bar commits or branch) as CSV, JSON
+ * or a self-contained HTML file, for people who need the numbers outside of VS Code.
+ */
+export class ReportExporter {
+    private checkpointManager: CheckpointManager;
+
+    constructor(checkpointManager: CheckpointManager) {
+        this.checkpointManager = checkpointManager;
+    }
+
+    public async exportReport() {
+        const repos = await this.checkpointManager.pickStatsRepos();
+        if (!repos) return;
+
+        const formats: { label: string, description: string, format: ReportFormat }[] = [
+            { label: "CSV", description: "One row per commit, plus a summary row per repository", format: 'csv' },
+            { label: "JSON", description: "Summary and commits per repository", format: 'json' },
+            { label: "HTML", description: "Standalone page with summary and commit tables", format: 'html' }
+        ];
+        const choice = await vscode.window.showQuickPick(formats, { placeHolder: "Report format" });
+        if (!choice) return;
+
+        const report = this.buildReport(repos);
+        const defaultName = `git-ai-report-${report.generated_at.substring(0, 10)}.${choice.format}`;
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, defaultName) : undefined,
+            filters: { [choice.label]: [choice.format] },
+            saveLabel: "Export Report"
+        });
+        if (!target) return;
+
+        let content: string;
+        switch (choice.format) {
+            case 'csv': content = this.toCsv(report); break;
+            case 'json': content = JSON.stringify(report, null, 2) + '\n'; break;
+            case 'html': content = this.toHtml(report); break;
+        }
+
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        } catch (err: any) {
+            vscode.window.showErrorMessage(`Git AI: Failed to export report: ${err.message}`);
+            return;
+        }
+
+        const open = await vscode.window.showInformationMessage(`Git AI: Report exported to ${path.basename(target.fsPath)}.`, "Open");
+        if (open) {
+            if (choice.format === 'html') {
+                vscode.env.openExternal(target);
+            } else {
+                vscode.window.showTextDocument(target);
+            }
+        }
+    }
+
+    private buildReport(repos: string[]): Report {
+        const repositories: ReportRepository[] = [];
+        for (const repo of repos) {
+            const data = this.checkpointManager.getLastCommitStats(repo);
+            if (!data) continue;
+            repositories.push({
+                name: path.basename(repo),
+                path: repo,
+                scope: this.toScope(data),
+                filter: this.toFilter(data),
+                summary: this.toStats(data.aggregated),
+                commits: data.commits.map(c => ({
+                    hash: c.hash,
+                    short_hash: c.shortHash,
+                    author: c.author,
+                    date: c.date,
+                    subject: c.subject,
+                    ...this.toStats(c)
+                }))
+            });
+        }
+        return { schema_version: REPORT_SCHEMA_VERSION, generated_at: new Date().toISOString(), repositories };
+    }
+
+    private toScope(data: RecentCommitsData): ReportScope {
+        if (data.branchScope) {
+            const scope = data.branchScope;
+            return { type: 'branch', branch: scope.branch, base: scope.base, merge_base: scope.mergeBase, commit_count: scope.commitCount };
+        }
+        return { type: 'recentCommits', commit_count: data.commits.length };
+    }
+
+    private toFilter(data: RecentCommitsData): ReportFilter | null {
+        if (!describeStatsFilter(data.filter)) return null;
+        const filter = data.filter!;
+        const result: ReportFilter = {};
+        if (filter.author) result.author = filter.author;
+        if (filter.since) result.since = filter.since;
+        if (filter.until) result.until = filter.until;
+        if (filter.paths.length > 0) result.paths = [...filter.paths];
+        return result;
+    }
+
+    private toStats(stats: CommitStats): ReportStats {
+        return {
+            human_additions: stats.human_additions || 0,
+            mixed_additions: stats.mixed_additions || 0,
+            ai_additions: stats.ai_additions || 0,
+            ai_accepted: stats.ai_accepted || 0,
+            total_ai_additions: stats.total_ai_additions || 0,
+            total_ai_deletions: stats.total_ai_deletions || 0,
+            time_waiting_for_ai: stats.time_waiting_for_ai || 0,
+            git_diff_added_lines: stats.git_diff_added_lines || 0,
+            git_diff_deleted_lines: stats.git_diff_deleted_lines || 0,
+            tool_model_breakdown: { ...(stats.tool_model_breakdown || {}) }
+        };
+    }
+
+    private scopeLabel(repo: ReportRepository): string {
+        const scope = repo.scope;
+        const label = scope.type === 'branch' ? `branch ${scope.branch} vs ${scope.base}` : `last ${scope.commit_count} commits`;
+        const filter = repo.filter;
+        return filter ? `${label} · ${describeStatsFilter({ author: '', since: '', until: '', paths: [], ...filter })}` : label;
+    }
+
+    private toCsv(report: Report): string {
+        const cell = (value: string | number) => {
+            let text = String(value);
+            // Commit subjects and author names are untrusted: spreadsheets would run "=..." etc. as formulas
+            if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+                text = `'${text}`;
+            }
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        // "key=lines" pairs separated by ';'
+        const breakdown = (stats: ReportStats) => Object.entries(stats.tool_model_breakdown).map(([k, v]) => `${k}=${v}`).join(';');
+        const statsCells = (stats: ReportStats) => [
+            stats.human_additions, stats.mixed_additions, stats.ai_additions, stats.ai_accepted, stats.total_ai_additions,
+            stats.total_ai_deletions, stats.time_waiting_for_ai, stats.git_diff_added_lines, stats.git_diff_deleted_lines, breakdown(stats)
+        ];
+
+        const rows: (string | number)[][] = [CSV_COLUMNS];
+        for (const repo of report.repositories) {
+            const scope = this.scopeLabel(repo);
+            rows.push([report.schema_version, repo.name, scope, 'summary', '', '', '', '', '', ...statsCells(repo.summary)]);
+            for (const c of repo.commits) {
+                rows.push([report.schema_version, repo.name, scope, 'commit', c.hash, c.short_hash, c.author, c.date, c.subject, ...statsCells(c)]);
+            }
+        }
+        return rows.map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+    }
+
+    private toHtml(report: Report): string {
+        const escape = (value: string | number) => String(value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+        const pct = (n: number, total: number) => total > 0 ? Math.round(n / total * 100) : 0;
+        const breakdown = (stats: ReportStats) => Object.entries(stats.tool_model_breakdown).map(([k, v]) => `${escape(k)}: ${v}`).join('<br>');
+
+        let body = '';
+        for (const repo of report.repositories) {
+            const s = repo.summary;
+            const ai = s.ai_additions + s.ai_accepted;
+            const total = ai + s.mixed_additions + s.human_additions;
+            body += `<h2>${escape(repo.name)}</h2>\n<p class="muted">${escape(repo.path)} · ${escape(this.scopeLabel(repo))}</p>\n`;
+            body += `<table class="summary">
+<tr><th>Lines added</th><td>${total}</td></tr>
+<tr><th>AI generated</th><td>${ai} (${pct(ai, total)}%)</td></tr>
+<tr><th>Mixed</th><td>${s.mixed_additions} (${pct(s.mixed_additions, total)}%)</td></tr>
+<tr><th>Human</th><td>${s.human_additions} (${pct(s.human_additions, total)}%)</td></tr>
+<tr><th>AI deletions</th><td>${s.total_ai_deletions}</td></tr>
+<tr><th>Lines deleted (git)</th><td>${s.git_diff_deleted_lines}</td></tr>
+<tr><th>Time waiting for AI</th><td>${s.time_waiting_for_ai}</td></tr>
+<tr><th>Tool / model</th><td>${breakdown(s) || '-'}</td></tr>
+</table>\n`;
+
+            if (repo.commits.length > 0) {
+                body += `<table>\n<tr><th>Commit</th><th>Date</th><th>Author</th><th>Message</th><th>AI</th><th>Mixed</th><th>Human</th><th>AI deletions</th><th>Deleted</th><th>Waiting for AI</th><th>Tool / model</th></tr>\n`;
+                for (const c of repo.commits) {
+                    body += `<tr><td><code>${escape(c.short_hash)}</code></td><td>${escape(c.date)}</td><td>${escape(c.author)}</td><td>${escape(c.subject)}</td>` +
+                        `<td>${c.ai_additions + c.ai_accepted}</td><td>${c.mixed_additions}</td><td>${c.human_additions}</td><td>${c.total_ai_deletions}</td>` +
+                        `<td>${c.git_diff_deleted_lines}</td><td>${c.time_waiting_for_ai}</td><td>${breakdown(c)}</td></tr>\n`;
+                }
+                body += `</table>\n`;
+            }
+        }
+
+        // The data is embedded as well, so the file is machine-readable on its own
+        const data = JSON.stringify(report).replace(/</g, '\\u003c');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Git AI Authorship Report</title>
+<style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2em; color: #222; }
+    table { border-collapse: collapse; margin-bottom: 1.5em; }
+    th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    .summary th { width: 12em; }
+    .muted { color: #777; }
+</style>
+</head>
+<body>
+<h1>Git AI Authorship Report</h1>
+<p class="muted">Generated ${escape(report.generated_at)} · schema version ${report.schema_version}</p>
+${body}<script type="application/json" id="git-ai-report">${data}</script>
+</body>
+</html>
+`;
+    }
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { AgentInfo } from './gitAiService';
+
+/**
+ * A single "an AI agent just did something" event.
+ * `files` are absolute paths the source knows were touched (may be empty if the source can't tell).
+ */
+export interface AiSignal {
+    sourceId: string;
+    agent: AgentInfo;
+    files: string[];
+    // True when the agent itself wrote `files` to disk, so they can be checkpointed without waiting for a file change
+    filesOnDisk?: boolean;
+    // Agent tool that produced the edit (e.g. 'fsWrite'), recorded in the checkpoint transcript
+    toolName?: string;
+    // A guess (e.g. the heuristic detector): it only claims `files`, and is dropped if it names none
+    guess?: boolean;
+}
+
+/**
+ * Anything that can tell us an AI agent is active: log scrapers, editor heuristics, ...
+ * Each source declares the agent it speaks for; events may override it (e.g. a source that relays several agents).
+ */
+export interface SignalSource extends vscode.Disposable {
+    readonly id: string;
+    readonly agentName: string;
+    readonly model: string;
+    readonly onDidSignal: vscode.Event<AiSignal>;
+    getDebugInfo?(): string;
+}
+
+export type SignalSourceFactory = () => SignalSource;
+
+/**
+ * Keeps track of all known signal sources and starts/stops them according to 'gitAi.signalSources'.
+ * Signals from enabled sources are forwarded to the given handler (CheckpointManager.signalAiActivity).
+ */
+export class SignalSourceRegistry {
+    private factories: Map<string, SignalSourceFactory> = new Map();
+    private active: Map<string, { source: SignalSource, subscription: vscode.Disposable }> = new Map();
+    private onSignal: (signal: AiSignal) => void;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(onSignal: (signal: AiSignal) => void) {
+        this.onSignal = onSignal;
+
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('gitAi.signalSources')) {
+                this.refresh();
+            }
+        }));
+    }
+
+    public register(id: string, factory: SignalSourceFactory) {
+        if (this.factories.has(id)) {
+            throw new Error(`Signal source '${id}' is already registered.`);
+        }
+        this.factories.set(id, factory);
+        this.refresh();
+    }
+
+    public isEnabled(id: string): boolean {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        const settings = config.get<Record<string, boolean>>('signalSources', {});
+        // Sources are on unless explicitly disabled
+        return settings[id] !== false;
+    }
+
+    public getSource(id: string): SignalSource | undefined {
+        return this.active.get(id)?.source;
+    }
+
+    public getRegisteredIds(): string[] {
+        return [...this.factories.keys()];
+    }
+
+    private refresh() {
+        for (const [id, factory] of this.factories) {
+            const enabled = this.isEnabled(id);
+            const entry = this.active.get(id);
+
+            if (enabled && !entry) {
+                try {
+                    const source = factory();
+                    const subscription = source.onDidSignal(signal => this.onSignal(signal));
+                    this.active.set(id, { source, subscription });
+                } catch (err) {
+                    console.error(`[Git AI] Failed to start signal source '${id}':`, err);
+                }
+            } else if (!enabled && entry) {
+                entry.subscription.dispose();
+                entry.source.dispose();
+                this.active.delete(id);
+            }
+        }
+    }
+
+    public getDebugInfo(): string {
+        const lines: string[] = [];
+        for (const id of this.factories.keys()) {
+            const source = this.getSource(id);
+            if (!source) {
+                lines.push(`[${id}] disabled`);
+                continue;
+            }
+            lines.push(`[${id}] agent=${source.agentName} model=${source.model}`);
+            if (source.getDebugInfo) {
+                lines.push(source.getDebugInfo());
+            }
+        }
+        return lines.join('\n');
+    }
+
+    public dispose() {
+        for (const entry of this.active.values()) {
+            entry.subscription.dispose();
+            entry.source.dispose();
+        }
+        this.active.clear();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
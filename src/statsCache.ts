@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitStats } from './gitAiService';
+
+/**
+ * Persistent cache of `git-ai stats <commit>` results, so refreshing the status bar after a commit or a branch
+ * switch only runs git-ai for the commits it hasn't seen yet.
+ *
+ * Stats of a commit only change when its attribution note (refs/notes/ai) changes, so entries are keyed by
+ * commit hash + the blob id of its note: a rewritten or newly fetched note simply misses the cache.
+ * The cache lives in globalStorage (shared by all windows), least recently used entries are dropped first.
+ */
+export class StatsCache {
+    private cachePath: string;
+    // Loaded on first use; insertion order = least recently used first
+    private entries: Map<string, CommitStats> | null = null;
+    private saveTimeout: NodeJS.Timeout | null = null;
+    private hits: number = 0;
+    private misses: number = 0;
+
+    private readonly MAX_ENTRIES = 5000;
+    private readonly SAVE_DELAY_MS = 2000;
+
+    constructor(storageUri: vscode.Uri) {
+        this.cachePath = path.join(storageUri.fsPath, 'stats-cache.json');
+    }
+
+    /**
+     * Cached stats of a commit; notesVersion is the blob id of its note (null = no note).
+     */
+    public get(hash: string, notesVersion: string | null): CommitStats | undefined {
+        const entries = this.load();
+        const key = this.key(hash, notesVersion);
+        const stats = entries.get(key);
+        if (!stats) {
+            this.misses++;
+            return undefined;
+        }
+
+        this.hits++;
+        // Move to the end (most recently used)
+        entries.delete(key);
+        entries.set(key, stats);
+        return stats;
+    }
+
+    public set(hash: string, notesVersion: string | null, stats: CommitStats) {
+        const entries = this.load();
+        const key = this.key(hash, notesVersion);
+        entries.delete(key);
+        entries.set(key, stats);
+
+        while (entries.size > this.MAX_ENTRIES) {
+            entries.delete(entries.keys().next().value!);
+        }
+        this.scheduleSave();
+    }
+
+    public getDebugInfo(): string {
+        return `Stats Cache: ${this.entries ? this.entries.size : 'not loaded'} entries, ${this.hits} hits, ${this.misses} misses`;
+    }
+
+    private key(hash: string, notesVersion: string | null): string {
+        return `${hash}:${notesVersion || '-'}`;
+    }
+
+    private load(): Map<string, CommitStats> {
+        if (this.entries) return this.entries;
+
+        this.entries = new Map();
+        if (!fs.existsSync(this.cachePath)) return this.entries;
+        try {
+            const stored: Record<string, CommitStats> = JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+            for (const [key, stats] of Object.entries(stored)) {
+                this.entries.set(key, stats);
+            }
+        } catch (err) {
+            // Corrupt or from an incompatible version: start over
+            console.error("[Git AI] Ignoring unreadable stats cache:", err);
+        }
+        return this.entries;
+    }
+
+    private scheduleSave() {
+        if (this.saveTimeout) return;
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.save();
+        }, this.SAVE_DELAY_MS);
+    }
+
+    private save() {
+        if (!this.entries) return;
+        try {
+            fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+            // Write + rename so a crash (or another window) never reads a half-written cache
+            const tmpPath = `${this.cachePath}.${process.pid}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+            fs.renameSync(tmpPath, this.cachePath);
+        } catch (err) {
+            console.error("[Git AI] Failed to write stats cache:", err);
+        }
+    }
+
+    public dispose() {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+            this.save();
+        }
+    }
+}
@@ -0,0 +1,410 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import { GitAiService, DetailedCommitStats } from './gitAiService';
+import { CheckpointManager } from './checkpointManager';
+
+// One commit as the dashboard script sees it
+interface DashboardCommit {
+    hash: string;
+    shortHash: string;
+    author: string;
+    date: string;
+    subject: string;
+    ai: number;
+    mixed: number;
+    human: number;
+    models: Record<string, number>;
+    // Top-level directory -> lines added
+    directories: Record<string, number>;
+}
+
+interface DashboardRepo {
+    repo: string;
+    name: string;
+    commits: DashboardCommit[];
+}
+
+// Messages the dashboard script sends
+type DashboardMessage =
+    | { command: 'ready' }
+    | { command: 'refresh' }
+    | { command: 'openCommit', repo: string, hash: string };
+
+/**
+ * "Git AI: Open Dashboard": a webview with the authorship of recent commits charted over time, per author,
+ * per model (tool_model_breakdown) and per directory. Filters and charts run in the webview; clicking a commit
+ * opens it. The data is reloaded whenever the stats change (new commit, checkout, ...).
+ *
+ * git-ai has no per-file stats, so the directory chart splits each commit's AI / mixed / human lines
+ * over its directories in proportion to the lines added there.
+ */
+export class StatsDashboard {
+    private gitAiService: GitAiService;
+    private checkpointManager: CheckpointManager;
+    private panel: vscode.WebviewPanel | null = null;
+    private disposables: vscode.Disposable[] = [];
+    // Listeners of the open panel, released when it closes
+    private panelDisposables: vscode.Disposable[] = [];
+    private reloadTimeout: NodeJS.Timeout | null = null;
+
+    // Configurable via 'gitAi.dashboardCommitDepth'
+    private get commitDepth(): number {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<number>('dashboardCommitDepth', 50);
+    }
+
+    constructor(gitAiService: GitAiService, checkpointManager: CheckpointManager) {
+        this.gitAiService = gitAiService;
+        this.checkpointManager = checkpointManager;
+
+        // Several repos may report at once after a checkout, reload once
+        this.disposables.push(this.checkpointManager.onDidChangeStats(() => this.scheduleReload()));
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('gitAi.dashboardCommitDepth')) {
+                this.scheduleReload();
+            }
+        }));
+    }
+
+    public open() {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel('gitAi.dashboard', "Git AI Dashboard", vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        });
+        this.panel.webview.html = this.getHtml(this.panel.webview);
+        this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message), null, this.panelDisposables);
+        this.panel.onDidDispose(() => {
+            this.panel = null;
+            this.panelDisposables.forEach(d => d.dispose());
+            this.panelDisposables = [];
+        }, null, this.panelDisposables);
+    }
+
+    private scheduleReload() {
+        if (!this.panel || this.reloadTimeout) return;
+        this.reloadTimeout = setTimeout(() => {
+            this.reloadTimeout = null;
+            this.reload();
+        }, 1000);
+    }
+
+    private async reload() {
+        if (!this.panel) return;
+        this.panel.webview.postMessage({ command: 'loading' });
+
+        const depth = this.commitDepth;
+        const repos: DashboardRepo[] = [];
+        for (const repo of await this.checkpointManager.getWorkspaceRepos()) {
+            const stats = await this.gitAiService.getRecentStats(repo, depth);
+            if (!stats) continue;
+            const files = await this.gitAiService.getCommitFiles(repo, stats.commits.map(c => c.hash));
+            repos.push({
+                repo,
+                name: path.basename(repo),
+                commits: stats.commits.map(c => this.toDashboardCommit(c, files.get(c.hash) || {}))
+            });
+        }
+
+        this.panel?.webview.postMessage({ command: 'data', repos, depth });
+    }
+
+    private toDashboardCommit(commit: DetailedCommitStats, files: Record<string, number>): DashboardCommit {
+        const directories: Record<string, number> = {};
+        for (const [file, added] of Object.entries(files)) {
+            const dir = this.topLevelDirectory(file);
+            directories[dir] = (directories[dir] || 0) + added;
+        }
+        return {
+            hash: commit.hash,
+            shortHash: commit.shortHash,
+            author: commit.author,
+            date: commit.date,
+            subject: commit.subject,
+            ai: commit.ai_additions + commit.ai_accepted,
+            mixed: commit.mixed_additions,
+            human: commit.human_additions,
+            models: commit.tool_model_breakdown || {},
+            directories
+        };
+    }
+
+    private topLevelDirectory(file: string): string {
+        // Renames: "{old => new}/file" or "old => new"
+        const renamed = file.replace(/\{[^}]* => ([^}]*)\}/g, '$1').replace(/^.* => /, '');
+        const slash = renamed.indexOf('/');
+        return slash > 0 ? renamed.substring(0, slash) + '/' : '(root)';
+    }
+
+    private async handleMessage(message: DashboardMessage) {
+        switch (message.command) {
+            case 'ready':
+            case 'refresh':
+                await this.reload();
+                break;
+            case 'openCommit':
+                await this.openCommit(message.repo, message.hash);
+                break;
+        }
+    }
+
+    private async openCommit(repo: string, hash: string) {
+        // The webview is not trusted: only commit hashes of the repos we showed reach git
+        if (typeof hash !== 'string' || !/^[0-9a-f]{7,40}$/.test(hash)) return;
+        const repos = await this.checkpointManager.getWorkspaceRepos();
+        if (typeof repo !== 'string' || !repos.includes(repo)) return;
+
+        const content = await new Promise<string | null>(resolve => {
+            cp.execFile('git', ['show', '--stat', '--patch', hash], { cwd: repo, maxBuffer: 50 * 1024 * 1024 }, (err, stdout) => {
+                resolve(err ? null : stdout);
+            });
+        });
+        if (content === null) {
+            vscode.window.showErrorMessage(`Git AI: Failed to show commit ${hash.substring(0, 7)}.`);
+            return;
+        }
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'diff' });
+        await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = [...Array(32)].map(() => Math.floor(Math.random() * 36).toString(36)).join('');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Git AI Dashboard</title>
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    h2 { font-size: 1.1em; margin: 24px 0 8px; }
+    .filters { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; position: sticky; top: 0; padding: 10px 0; background: var(--vscode-editor-background); }
+    select, button { background: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border); padding: 2px 6px; }
+    button { cursor: pointer; }
+    .summary { margin: 8px 0; }
+    .legend span { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; }
+    .ai { fill: var(--vscode-gitAi-aiLineIndicator); background: var(--vscode-gitAi-aiLineIndicator); }
+    .mixed { fill: var(--vscode-gitAi-mixedLineIndicator); background: var(--vscode-gitAi-mixedLineIndicator); }
+    /* The human line indicator is transparent by default (gutter only), the charts need a visible color */
+    .human { fill: var(--vscode-gitAi-chartHuman); background: var(--vscode-gitAi-chartHuman); }
+    .model { fill: var(--vscode-charts-purple); }
+    svg text { fill: var(--vscode-foreground); font-size: 11px; }
+    .clickable { cursor: pointer; }
+    .clickable:hover { opacity: 0.8; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    tr.commit { cursor: pointer; }
+    tr.commit:hover { background: var(--vscode-list-hoverBackground); }
+    .empty { opacity: 0.7; font-style: italic; }
+</style>
+</head>
+<body>
+<div class="filters">
+    <label>Repository <select id="repo"></select></label>
+    <label>Author <select id="author"></select></label>
+    <label>Model <select id="model"></select></label>
+    <label>Period <select id="period">
+        <option value="0">All loaded commits</option>
+        <option value="7">Last 7 days</option>
+        <option value="30">Last 30 days</option>
+        <option value="90">Last 90 days</option>
+    </select></label>
+    <button id="refresh">Refresh</button>
+    <span class="legend"><span class="ai"></span>AI<span class="mixed"></span>Mixed<span class="human"></span>Human</span>
+</div>
+<div id="status" class="summary">Loading...</div>
+<div id="content"></div>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    let repos = [];
+    let depth = 0;
+
+    const $ = id => document.getElementById(id);
+    const escape = s => String(s).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+    const pct = (n, total) => total > 0 ? Math.round(n / total * 100) : 0;
+
+    function fillSelect(select, values, allLabel) {
+        const current = select.value;
+        select.innerHTML = '<option value="">' + allLabel + '</option>' + values.map(v => '<option value="' + escape(v) + '">' + escape(v) + '</option>').join('');
+        select.value = values.includes(current) ? current : '';
+    }
+
+    function selectedCommits() {
+        const repo = $('repo').value, author = $('author').value, model = $('model').value;
+        const days = Number($('period').value);
+        const since = days > 0 ? Date.now() - days * 24 * 3600 * 1000 : 0;
+        const result = [];
+        for (const r of repos) {
+            if (repo && r.repo !== repo) continue;
+            for (const c of r.commits) {
+                if (author && c.author !== author) continue;
+                if (model && !c.models[model]) continue;
+                if (since && new Date(c.date).getTime() < since) continue;
+                result.push(Object.assign({ repo: r.repo, repoName: r.name }, c));
+            }
+        }
+        return result.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    }
+
+    // One horizontal bar per group, split into AI / mixed / human
+    function stackedRows(groups, onClick) {
+        const rowHeight = 22, labelWidth = 180, barWidth = 420;
+        let svg = '<svg width="' + (labelWidth + barWidth + 160) + '" height="' + (groups.length * rowHeight + 4) + '">';
+        groups.forEach((g, i) => {
+            const total = g.ai + g.mixed + g.human;
+            const y = i * rowHeight;
+            let x = labelWidth;
+            const attrs = onClick ? ' class="clickable" data-value="' + escape(g.key) + '"' : '';
+            svg += '<g' + attrs + '><title>' + escape(g.key) + ': ' + g.ai + ' AI, ' + g.mixed + ' mixed, ' + g.human + ' human</title>';
+            svg += '<text x="0" y="' + (y + 15) + '">' + escape(g.key.length > 28 ? g.key.substring(0, 27) + '…' : g.key) + '</text>';
+            for (const kind of ['ai', 'mixed', 'human']) {
+                const w = total > 0 ? g[kind] / total * barWidth : 0;
+                svg += '<rect class="' + kind + '" x="' + x + '" y="' + (y + 3) + '" width="' + w + '" height="' + (rowHeight - 6) + '"></rect>';
+                x += w;
+            }
+            svg += '<text x="' + (labelWidth + barWidth + 8) + '" y="' + (y + 15) + '">' + pct(g.ai, total) + '% AI · ' + total + ' lines</text></g>';
+        });
+        return svg + '</svg>';
+    }
+
+    function group(commits, keysOf) {
+        const groups = new Map();
+        for (const c of commits) {
+            for (const [key, weight] of keysOf(c)) {
+                const g = groups.get(key) || { key, ai: 0, mixed: 0, human: 0 };
+                g.ai += c.ai * weight; g.mixed += c.mixed * weight; g.human += c.human * weight;
+                groups.set(key, g);
+            }
+        }
+        return [...groups.values()]
+            .map(g => ({ key: g.key, ai: Math.round(g.ai), mixed: Math.round(g.mixed), human: Math.round(g.human) }))
+            .sort((a, b) => (b.ai + b.mixed + b.human) - (a.ai + a.mixed + a.human));
+    }
+
+    function timeline(commits) {
+        const height = 160, barWidth = Math.max(4, Math.min(24, Math.floor(900 / Math.max(1, commits.length))));
+        let svg = '<svg width="' + (commits.length * barWidth + 40) + '" height="' + (height + 20) + '">';
+        svg += '<text x="0" y="10">100%</text><text x="0" y="' + height + '">0%</text>';
+        commits.forEach((c, i) => {
+            const total = c.ai + c.mixed + c.human;
+            const x = 40 + i * barWidth;
+            let y = height;
+            svg += '<g class="clickable" data-repo="' + escape(c.repo) + '" data-hash="' + escape(c.hash) + '"><title>' +
+                escape(c.shortHash + ' ' + c.subject + '\\n' + c.author + ', ' + new Date(c.date).toLocaleString() + '\\n' +
+                pct(c.ai, total) + '% AI · ' + pct(c.mixed, total) + '% mixed · ' + pct(c.human, total) + '% human') + '</title>';
+            // Commits without additions get a thin placeholder so they remain clickable
+            if (total === 0) {
+                svg += '<rect x="' + x + '" y="' + (height - 2) + '" width="' + (barWidth - 1) + '" height="2" class="human"></rect>';
+            }
+            for (const kind of ['human', 'mixed', 'ai']) {
+                const h = total > 0 ? c[kind] / total * (height - 10) : 0;
+                y -= h;
+                svg += '<rect class="' + kind + '" x="' + x + '" y="' + y + '" width="' + (barWidth - 1) + '" height="' + h + '"></rect>';
+            }
+            svg += '</g>';
+        });
+        return svg + '</svg>';
+    }
+
+    function models(commits) {
+        const totals = new Map();
+        for (const c of commits) {
+            for (const [model, lines] of Object.entries(c.models)) totals.set(model, (totals.get(model) || 0) + lines);
+        }
+        const rows = [...totals.entries()].sort((a, b) => b[1] - a[1]);
+        if (rows.length === 0) return '<div class="empty">No AI lines in the selected commits.</div>';
+        const sum = rows.reduce((s, r) => s + r[1], 0);
+        const max = rows[0][1];
+        let svg = '<svg width="760" height="' + (rows.length * 22 + 4) + '">';
+        rows.forEach(([model, lines], i) => {
+            const y = i * 22;
+            svg += '<g class="clickable" data-value="' + escape(model) + '"><title>' + escape(model) + ': ' + lines + ' lines</title>';
+            svg += '<text x="0" y="' + (y + 15) + '">' + escape(model.length > 28 ? model.substring(0, 27) + '…' : model) + '</text>';
+            svg += '<rect class="model" x="180" y="' + (y + 3) + '" width="' + (lines / max * 420) + '" height="16"></rect>';
+            svg += '<text x="608" y="' + (y + 15) + '">' + lines + ' lines · ' + pct(lines, sum) + '%</text></g>';
+        });
+        return svg + '</svg>';
+    }
+
+    function render() {
+        const commits = selectedCommits();
+        const total = commits.reduce((s, c) => s + c.ai + c.mixed + c.human, 0);
+        const ai = commits.reduce((s, c) => s + c.ai, 0), mixed = commits.reduce((s, c) => s + c.mixed, 0);
+        $('status').textContent = commits.length + ' commit(s) (last ' + depth + ' per repository) · ' + total + ' lines added · ' +
+            pct(ai, total) + '% AI · ' + pct(mixed, total) + '% mixed · ' + pct(total - ai - mixed, total) + '% human';
+
+        if (commits.length === 0) {
+            $('content').innerHTML = '<div class="empty">No commits match the filters.</div>';
+            return;
+        }
+
+        const byDirectory = group(commits, c => {
+            const dirTotal = Object.values(c.directories).reduce((s, n) => s + n, 0);
+            return Object.entries(c.directories).filter(([, n]) => n > 0).map(([dir, n]) => [dir, n / dirTotal]);
+        });
+
+        let html = '<h2>Authorship over time</h2>' + timeline(commits);
+        html += '<h2>Per author</h2><div id="authors">' + stackedRows(group(commits, c => [[c.author, 1]]), true) + '</div>';
+        html += '<h2>Per model</h2><div id="models">' + models(commits) + '</div>';
+        html += '<h2>Per directory</h2>' + (byDirectory.length ? stackedRows(byDirectory.slice(0, 20), false) : '<div class="empty">No file changes found.</div>');
+        html += '<h2>Commits</h2><table><tr><th>Date</th><th>Commit</th><th>Message</th><th>Author</th><th>AI</th><th>Mixed</th><th>Human</th></tr>';
+        for (const c of commits.slice().reverse()) {
+            html += '<tr class="commit" data-repo="' + escape(c.repo) + '" data-hash="' + escape(c.hash) + '"><td>' + escape(new Date(c.date).toLocaleDateString()) +
+                '</td><td>' + escape((repos.length > 1 ? c.repoName + ' ' : '') + c.shortHash) + '</td><td>' + escape(c.subject) + '</td><td>' + escape(c.author) +
+                '</td><td>' + c.ai + '</td><td>' + c.mixed + '</td><td>' + c.human + '</td></tr>';
+        }
+        $('content').innerHTML = html + '</table>';
+    }
+
+    // Click-through: commits open in an editor, authors / models become the filter
+    $('content').addEventListener('click', e => {
+        const commit = e.target.closest('[data-hash]');
+        if (commit) {
+            vscode.postMessage({ command: 'openCommit', repo: commit.dataset.repo, hash: commit.dataset.hash });
+            return;
+        }
+        const value = e.target.closest('[data-value]');
+        if (value && value.closest('#authors')) { $('author').value = value.dataset.value; render(); }
+        if (value && value.closest('#models')) { $('model').value = value.dataset.value; render(); }
+    });
+    for (const id of ['repo', 'author', 'model', 'period']) $(id).addEventListener('change', render);
+    $('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+
+    window.addEventListener('message', e => {
+        const message = e.data;
+        if (message.command === 'loading') {
+            $('status').textContent = 'Loading...';
+        } else if (message.command === 'data') {
+            repos = message.repos;
+            depth = message.depth;
+            const commits = repos.flatMap(r => r.commits);
+            const repoSelect = $('repo');
+            const current = repoSelect.value;
+            repoSelect.innerHTML = '<option value="">All repositories</option>' + repos.map(r => '<option value="' + escape(r.repo) + '">' + escape(r.name) + '</option>').join('');
+            repoSelect.value = repos.some(r => r.repo === current) ? current : '';
+            fillSelect($('author'), [...new Set(commits.map(c => c.author))].sort(), 'Everyone');
+            fillSelect($('model'), [...new Set(commits.flatMap(c => Object.keys(c.models)))].sort(), 'All models');
+            render();
+        }
+    });
+
+    vscode.postMessage({ command: 'ready' });
+}());
+</script>
+</body>
+</html>`;
+    }
+
+    public dispose() {
+        if (this.reloadTimeout) clearTimeout(this.reloadTimeout);
+        this.panel?.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CheckpointManager } from './checkpointManager';
+import { AgentInfo } from './gitAiService';
+import { AiSignal, SignalSource } from './signalSource';
+
+/**
+ * Detects AI CLI agents (aider, claude, q chat, ...) running in the integrated terminal via shell integration.
+ * While such a command runs, file changes under its working directory are attributed to that agent
+ * instead of going through the human debounce.
+ *
+ * Registered as the 'terminal' signal source so it can be switched off via 'gitAi.signalSources'. It fires no
+ * signals itself: the sessions are handed to CheckpointManager, which matches file changes against them.
+ */
+export class TerminalAgentDetector implements SignalSource {
+    public readonly id = 'terminal';
+    // Default only, every session names its own agent
+    public readonly agentName = 'terminal';
+    public readonly model = 'unknown';
+
+    private _onDidSignal = new vscode.EventEmitter<AiSignal>();
+    public readonly onDidSignal = this._onDidSignal.event;
+
+    private checkpointManager: CheckpointManager;
+    private outputChannel: vscode.OutputChannel;
+    private disposables: vscode.Disposable[] = [];
+    // Agent commands that are still running, ended when the source is disabled
+    private running: Set<vscode.TerminalShellExecution> = new Set();
+
+    // Configurable via 'gitAi.terminalAgents': command prefix -> agent name
+    private get agentCommands(): Record<string, string> {
+        const config = vscode.workspace.getConfiguration('gitAi');
+        return config.get<Record<string, string>>('terminalAgents', {});
+    }
+
+    constructor(checkpointManager: CheckpointManager) {
+        this.checkpointManager = checkpointManager;
+        this.outputChannel = vscode.window.createOutputChannel("Git AI Terminal Agents");
+
+        this.disposables.push(vscode.window.onDidStartTerminalShellExecution(e => this.handleStart(e)));
+        this.disposables.push(vscode.window.onDidEndTerminalShellExecution(e => this.handleEnd(e)));
+    }
+
+    public getDebugInfo(): string {
+        return `Running agent commands: ${this.running.size}`;
+    }
+
+    public dispose() {
+        for (const execution of this.running) {
+            this.checkpointManager.endAgentSession(execution);
+        }
+        this.running.clear();
+        this.disposables.forEach(d => d.dispose());
+        this._onDidSignal.dispose();
+        this.outputChannel.dispose();
+    }
+
+    private handleStart(event: vscode.TerminalShellExecutionStartEvent) {
+        const commandLine = event.execution.commandLine.value;
+        const agent = this.matchAgent(commandLine);
+        if (!agent) return;
+
+        const cwd = this.resolveCwd(event.terminal, event.execution);
+        if (!cwd) {
+            // Without a directory every file change in the workspace would be the agent's
+            this.outputChannel.appendLine(`[TERMINAL] ${agent.agentName} started in '${event.terminal.name}' but its working directory is unknown, not attributing: ${commandLine}`);
+            return;
+        }
+        this.outputChannel.appendLine(`[TERMINAL] ${agent.agentName} started in '${event.terminal.name}' (cwd: ${cwd}): ${commandLine}`);
+        this.running.add(event.execution);
+        this.checkpointManager.beginAgentSession(event.execution, agent, cwd);
+    }
+
+    private handleEnd(event: vscode.TerminalShellExecutionEndEvent) {
+        this.running.delete(event.execution);
+        if (this.checkpointManager.endAgentSession(event.execution)) {
+            this.outputChannel.appendLine(`[TERMINAL] Agent command finished in '${event.terminal.name}' (exit code: ${event.exitCode ?? 'unknown'})`);
+        }
+    }
+
+    /**
+     * Working directory of the command: reported by shell integration, else the directory the terminal was
+     * created in, else the workspace folder if there is only one. Null when it can't be told.
+     */
+    private resolveCwd(terminal: vscode.Terminal, execution: vscode.TerminalShellExecution): string | null {
+        if (execution.cwd?.scheme === 'file') {
+            return execution.cwd.fsPath;
+        }
+
+        const options = terminal.creationOptions;
+        const initialCwd = 'cwd' in options ? options.cwd : undefined;
+        if (typeof initialCwd === 'string' && path.isAbsolute(initialCwd)) {
+            return initialCwd;
+        }
+        if (initialCwd instanceof vscode.Uri && initialCwd.scheme === 'file') {
+            return initialCwd.fsPath;
+        }
+
+        const folders = vscode.workspace.workspaceFolders || [];
+        return folders.length === 1 ? folders[0].uri.fsPath : null;
+    }
+
+    /**
+     * Matches a command line against the configured prefixes, word by word.
+     * Leading env assignments (FOO=bar) are skipped and the executable may be given as a path.
+     */
+    private matchAgent(commandLine: string): AgentInfo | null {
+        const words = commandLine.trim().split(/\s+/);
+        while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+            words.shift();
+        }
+        if (words.length === 0) return null;
+        words[0] = path.basename(words[0]).replace(/\.(exe|cmd|bat)$/i, '');
+
+        // Longest prefix wins ("gh copilot" before "gh")
+        const entries = Object.entries(this.agentCommands)
+            .sort((a, b) => b[0].split(/\s+/).length - a[0].split(/\s+/).length);
+
+        for (const [prefix, agentName] of entries) {
+            const prefixWords = prefix.trim().split(/\s+/);
+            if (prefixWords.length <= words.length && prefixWords.every((w, i) => words[i] === w)) {
+                return { agentName, model: this.extractModel(words) || 'unknown' };
+            }
+        }
+        return null;
+    }
+
+    // Most agent CLIs take '--model <name>' or '--model=<name>'
+    private extractModel(words: string[]): string | null {
+        for (let i = 0; i < words.length; i++) {
+            if (words[i] === '--model' && i + 1 < words.length) {
+                return words[i + 1].replace(/^["']|["']$/g, '');
+            }
+            if (words[i].startsWith('--model=')) {
+                return words[i].substring('--model='.length).replace(/^["']|["']$/g, '');
+            }
+        }
+        return null;
+    }
+}